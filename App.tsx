@@ -1,44 +1,133 @@
 import { StatusBar } from 'expo-status-bar';
-import { StyleSheet, Text, View, Platform, SafeAreaView, Image } from 'react-native';
+import { StyleSheet, Text, View, Platform, SafeAreaView, Image, ActivityIndicator, TouchableOpacity } from 'react-native';
+import { CommonActions, NavigationContainer, createNavigationContainerRef } from '@react-navigation/native';
+import { createNativeStackNavigator } from '@react-navigation/native-stack';
 import { LoginCredentials } from './src/components/LoginCredentials';
 import { DeviceList } from './src/components/DeviceList';
-import { useState } from 'react';
-import { UserDevice, fetchUserDevices } from './src/services/api';
+import { DeviceDetail } from './src/components/DeviceDetail';
+import { DeviceSharing } from './src/components/DeviceSharing';
+import { ScheduleEditor } from './src/components/ScheduleEditor';
+import { ActivityLog } from './src/components/ActivityLog';
+import { ClaimDevice } from './src/components/ClaimDevice';
+import { RegisterAccount } from './src/components/RegisterAccount';
+import { VerifyEmail } from './src/components/VerifyEmail';
+import { ResetPassword } from './src/components/ResetPassword';
+import { AlertsInbox } from './src/components/AlertsInbox';
+import { Settings } from './src/components/Settings';
+import { AccountSwitcher } from './src/components/AccountSwitcher';
+import { AddAccount } from './src/components/AddAccount';
+import { OrganizationView } from './src/components/OrganizationView';
+import { DeviceMap } from './src/components/DeviceMap';
+import { PinPrompt } from './src/components/PinPrompt';
+import { recordInteraction } from './src/services/appLock';
+import { Diagnostics } from './src/components/Diagnostics';
+import { DeviceRoute } from './src/components/DeviceRoute';
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { startOutbox } from './src/services/outbox';
+import { applyDeviceStatusEvent, connectRealtime } from './src/services/realtime';
+import { getAlerts, processDeviceSnapshot, startAlerts, stopAlerts, subscribeAlerts } from './src/services/alerts';
+import { isAlertActive } from './src/utils/alertRules';
+import { RootStackParamList } from './src/navigation/types';
+import { createLinking, routeFromPath, takeDeferredPath } from './src/navigation/linking';
+import { setDevices, setStatusMessage, updateDeviceList } from './src/store/appStore';
+import {
+  completeLogin,
+  renameOwnedDevice,
+  restore,
+  signOut,
+  unlinkOwnedDevice,
+} from './src/store/actions';
+import { useDemoMode, useDevices, useDevicesStatus, useSession } from './src/store/hooks';
+
+const Stack = createNativeStackNavigator<RootStackParamList>();
+const navigationRef = createNavigationContainerRef<RootStackParamList>();
 
 export default function App() {
-  const [devices, setDevices] = useState<UserDevice[]>([]);
-  const [isLoading, setIsLoading] = useState(false);
-  const [error, setError] = useState<Error | null>(null);
-  const [currentAccessToken, setCurrentAccessToken] = useState<string>('');
-  const [statusMessage, setStatusMessage] = useState<string>('');
+  const { accessToken, userId, isRestoring, statusMessage } = useSession();
+  const devices = useDevices();
+  const { hasLoaded } = useDevicesStatus();
+  const isDemoMode = useDemoMode();
+  const [activeAlertCount, setActiveAlertCount] = useState(0);
 
-  const isLoggedIn = Boolean(currentAccessToken);
+  const isLoggedIn = Boolean(accessToken);
+  const isLoggedInRef = useRef(isLoggedIn);
+  isLoggedInRef.current = isLoggedIn;
+  const linking = useMemo(() => createLinking(() => isLoggedInRef.current), []);
 
-  const handleLoginSuccess = async (accessToken: string) => {
-    setCurrentAccessToken(accessToken);
-    await refreshDevices(accessToken);
-  };
+  useEffect(() => {
+    restore();
+  }, []);
 
-  const refreshDevices = async (accessToken: string = currentAccessToken) => {
-    setIsLoading(true);
-    setError(null);
-    try {
-      const userDevices = await fetchUserDevices(accessToken);
-      setDevices(userDevices);
-    } catch (error: any) {
-      setError(error);
-      console.error('Failed to fetch devices:', error);
-    } finally {
-      setIsLoading(false);
+  useEffect(() => {
+    if (!isLoggedIn) {
+      return;
     }
-  };
 
-  const handleStatusUpdate = (message: string) => {
-    setStatusMessage(message);
+    let stopOutbox: (() => void) | undefined;
+    let cancelled = false;
+    startOutbox().then(stop => {
+      if (cancelled) {
+        stop();
+      } else {
+        stopOutbox = stop;
+      }
+    });
+
+    return () => {
+      cancelled = true;
+      stopOutbox?.();
+    };
+  }, [isLoggedIn]);
+
+  useEffect(() => {
+    // The mock backend has no push channel; the status watcher polls it instead
+    if (!isLoggedIn || !userId || isDemoMode) {
+      return;
+    }
+
+    return connectRealtime({
+      userId,
+      onDeviceEvent: event => updateDeviceList(list => applyDeviceStatusEvent(list, event)),
+      onDevices: setDevices,
+    });
+  }, [isLoggedIn, userId, isDemoMode]);
+
+  // Keyed on the account, so switching accounts loads that account's alerts and starts evaluating again
+  useEffect(() => {
+    if (isLoggedIn && userId) {
+      startAlerts(userId);
+    } else {
+      stopAlerts();
+    }
+  }, [isLoggedIn, userId]);
+
+  // Alerts only evaluate real snapshots, not the empty list shown before the first fetch
+  useEffect(() => {
+    if (isLoggedIn && hasLoaded) {
+      processDeviceSnapshot(devices.map(item => item.device));
+    }
+  }, [devices, hasLoaded, isLoggedIn]);
+
+  useEffect(() => {
+    const countActive = () => setActiveAlertCount(getAlerts().filter(alert => isAlertActive(alert, Date.now())).length);
+    countActive();
+    return subscribeAlerts(countActive);
+  }, []);
+
+  // Replay the link that sent the user to the login screen once the app screens are mounted
+  const replayDeferredLink = () => {
+    if (!isLoggedInRef.current) {
+      return;
+    }
+    const path = takeDeferredPath();
+    const route = path ? routeFromPath(path) : null;
+    if (route) {
+      navigationRef.dispatch(CommonActions.navigate(route));
+    }
   };
 
   return (
-    <SafeAreaView style={styles.safeArea}>
+    <SafeAreaView style={styles.safeArea} onTouchStart={() => recordInteraction()}>
       <View style={styles.header}>
         <Image 
           source={require('./assets/logo.png')} 
@@ -46,26 +135,199 @@ export default function App() {
           resizeMode="contain"
         />
         <Text style={styles.title}>LetsParky API Demo</Text>
+        {isDemoMode && <Text style={styles.demoBadge}>DEMO</Text>}
         <StatusBar style="auto" />
       </View>
 
       <View style={styles.mainContent}>
-        <DeviceList 
-          devices={devices}
-          isLoading={isLoading}
-          error={error}
-          onRefresh={refreshDevices}
-          onStatusUpdate={handleStatusUpdate}
-          isLoggedIn={isLoggedIn}
-        />
+        {isRestoring ? (
+          <ActivityIndicator size="large" color="#F8AB16" style={styles.loader} />
+        ) : (
+          <NavigationContainer
+            ref={navigationRef}
+            linking={linking}
+            onReady={replayDeferredLink}
+            onStateChange={replayDeferredLink}
+          >
+            <Stack.Navigator screenOptions={{ headerShown: false, contentStyle: styles.screen }}>
+              {isLoggedIn ? (
+                <Stack.Group>
+                  <Stack.Screen name="Devices">
+                    {({ navigation }) => (
+                      <DeviceList 
+                        onSelectDevice={deviceId => navigation.navigate('DeviceDetail', { deviceId })}
+                        onAddDevice={() => navigation.navigate('AddDevice')}
+                        onOpenAlerts={() => navigation.navigate('Alerts')}
+                        onOpenSettings={() => navigation.navigate('Settings')}
+                        onOpenOrganization={() => navigation.navigate('Organization')}
+                        onOpenMap={() => navigation.navigate('Map')}
+                        activeAlertCount={activeAlertCount}
+                      />
+                    )}
+                  </Stack.Screen>
+                  <Stack.Screen name="DeviceDetail">
+                    {({ navigation, route }) => (
+                      <DeviceRoute deviceId={route.params.deviceId} onBack={navigation.goBack}>
+                        {userDevice => (
+                          <DeviceDetail
+                            userDevice={userDevice}
+                            onBack={navigation.goBack}
+                            onManageAccess={() => navigation.navigate('DeviceSharing', route.params)}
+                            onOpenSchedules={() => navigation.navigate('Schedules', route.params)}
+                            onOpenActivity={() => navigation.navigate('Activity', route.params)}
+                            onRename={nickName => renameOwnedDevice(userDevice.device.id, nickName)}
+                            onUnlink={async () => {
+                              // The device disappears from the store right away, so leave its screen first
+                              navigation.popTo('Devices');
+                              await unlinkOwnedDevice(userDevice.device.id);
+                            }}
+                          />
+                        )}
+                      </DeviceRoute>
+                    )}
+                  </Stack.Screen>
+                  <Stack.Screen name="DeviceSharing">
+                    {({ navigation, route }) => (
+                      <DeviceRoute deviceId={route.params.deviceId} onBack={navigation.goBack}>
+                        {userDevice => <DeviceSharing userDevice={userDevice} onBack={navigation.goBack} />}
+                      </DeviceRoute>
+                    )}
+                  </Stack.Screen>
+                  <Stack.Screen name="Schedules">
+                    {({ navigation, route }) => (
+                      <DeviceRoute deviceId={route.params.deviceId} onBack={navigation.goBack}>
+                        {userDevice => <ScheduleEditor userDevice={userDevice} onBack={navigation.goBack} />}
+                      </DeviceRoute>
+                    )}
+                  </Stack.Screen>
+                  <Stack.Screen name="Activity">
+                    {({ navigation, route }) => (
+                      <DeviceRoute deviceId={route.params.deviceId} onBack={navigation.goBack}>
+                        {userDevice => <ActivityLog userDevice={userDevice} onBack={navigation.goBack} />}
+                      </DeviceRoute>
+                    )}
+                  </Stack.Screen>
+                  <Stack.Screen name="AddDevice">
+                    {({ navigation }) => (
+                      <ClaimDevice onBack={navigation.goBack} />
+                    )}
+                  </Stack.Screen>
+                  <Stack.Screen name="Alerts">
+                    {({ navigation }) => (
+                      <AlertsInbox
+                        onBack={navigation.goBack}
+                        onSelectDevice={deviceId => navigation.navigate('DeviceDetail', { deviceId })}
+                      />
+                    )}
+                  </Stack.Screen>
+                  <Stack.Screen name="Settings">
+                    {({ navigation }) => (
+                      <Settings
+                        onBack={navigation.goBack}
+                        onOpenAlerts={() => navigation.navigate('Alerts')}
+                        onOpenAccounts={() => navigation.navigate('Accounts')}
+                        onOpenDiagnostics={() => navigation.navigate('Diagnostics')}
+                        onLogout={signOut}
+                      />
+                    )}
+                  </Stack.Screen>
+                  <Stack.Screen name="Accounts">
+                    {({ navigation }) => (
+                      <AccountSwitcher
+                        onBack={navigation.goBack}
+                        onAddAccount={() => navigation.navigate('AddAccount')}
+                        onSwitched={() => navigation.popTo('Devices')}
+                      />
+                    )}
+                  </Stack.Screen>
+                  <Stack.Screen name="AddAccount">
+                    {({ navigation }) => (
+                      <AddAccount
+                        onBack={navigation.goBack}
+                        onLoginSuccess={async accessToken => {
+                          navigation.popTo('Devices');
+                          await completeLogin(accessToken);
+                        }}
+                      />
+                    )}
+                  </Stack.Screen>
+                  <Stack.Screen name="Organization">
+                    {({ navigation }) => (
+                      <OrganizationView
+                        onBack={navigation.goBack}
+                        onSelectDevice={deviceId => navigation.navigate('DeviceDetail', { deviceId })}
+                      />
+                    )}
+                  </Stack.Screen>
+                  <Stack.Screen name="Diagnostics">
+                    {({ navigation }) => <Diagnostics onBack={navigation.goBack} />}
+                  </Stack.Screen>
+                  <Stack.Screen name="Map">
+                    {({ navigation }) => (
+                      <DeviceMap
+                        onBack={navigation.goBack}
+                        onSelectDevice={deviceId => navigation.navigate('DeviceDetail', { deviceId })}
+                      />
+                    )}
+                  </Stack.Screen>
+                </Stack.Group>
+              ) : (
+                <Stack.Group>
+                  <Stack.Screen name="Login">
+                    {({ navigation }) => (
+                      <LoginCredentials 
+                        onLoginSuccess={completeLogin}
+                        statusMessage={statusMessage} 
+                        onRegister={() => navigation.navigate('Register')}
+                        onForgotPassword={() => navigation.navigate('ResetPassword')}
+                        onVerifyEmail={email => navigation.navigate('VerifyEmail', { email })}
+                      />
+                    )}
+                  </Stack.Screen>
+                  <Stack.Screen name="Register">
+                    {({ navigation }) => (
+                      <RegisterAccount
+                        onBack={navigation.goBack}
+                        onRegistered={email => navigation.replace('VerifyEmail', { email })}
+                      />
+                    )}
+                  </Stack.Screen>
+                  <Stack.Screen name="VerifyEmail">
+                    {({ navigation, route }) => (
+                      <VerifyEmail
+                        email={route.params.email}
+                        onBack={navigation.goBack}
+                        onVerified={() => {
+                          setStatusMessage('Email verified. You can log in now');
+                          navigation.popTo('Login');
+                        }}
+                      />
+                    )}
+                  </Stack.Screen>
+                  <Stack.Screen name="ResetPassword">
+                    {({ navigation }) => (
+                      <ResetPassword
+                        onBack={navigation.goBack}
+                        onReset={() => {
+                          setStatusMessage('Password changed. Log in with your new password');
+                          navigation.popTo('Login');
+                        }}
+                      />
+                    )}
+                  </Stack.Screen>
+                </Stack.Group>
+              )}
+            </Stack.Navigator>
+          </NavigationContainer>
+        )}
       </View>
 
-      <View style={styles.footer}>
-        <LoginCredentials 
-          onLoginSuccess={handleLoginSuccess}
-          statusMessage={statusMessage} 
-        />
-      </View>
+      {isLoggedIn && statusMessage ? (
+        <TouchableOpacity style={styles.footer} onPress={() => setStatusMessage('')}>
+          <Text style={styles.statusText}>{statusMessage}</Text>
+        </TouchableOpacity>
+      ) : null}
+      <PinPrompt />
     </SafeAreaView>
   );
 }
@@ -78,6 +340,17 @@ const styles = StyleSheet.create({
   mainContent: {
     flex: 1,
   },
+  screen: {
+    backgroundColor: '#fff',
+  },
+  loader: {
+    marginTop: 40,
+  },
+  statusText: {
+    padding: 16,
+    color: '#666',
+    fontWeight: '500',
+  },
   header: {
     paddingTop: Platform.OS === 'ios' ? 20 : 50,
     paddingBottom: 20,
@@ -104,6 +377,15 @@ const styles = StyleSheet.create({
     height: 30,
     width: 120,
   },
+  demoBadge: {
+    backgroundColor: '#fff4e0',
+    color: '#F8AB16',
+    fontSize: 12,
+    fontWeight: '700',
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: 4,
+  },
   title: {
     flex:2,
     fontSize: 20,
@@ -0,0 +1,30 @@
+import { ConfigContext, ExpoConfig } from 'expo/config';
+
+// Android's map tiles need a Google Maps key; it is kept out of the repo and supplied as an EAS secret
+// (or exported locally) under this name
+const MAPS_KEY_VARIABLE = 'GOOGLE_MAPS_ANDROID_API_KEY';
+
+export default ({ config }: ConfigContext): ExpoConfig => {
+  const apiKey = process.env[MAPS_KEY_VARIABLE];
+
+  if (!apiKey) {
+    // A release without the key installs fine and then shows an empty grey map, so refuse to build it
+    if (process.env.EAS_BUILD_PLATFORM === 'android') {
+      throw new Error(`${MAPS_KEY_VARIABLE} is not set; add it as an EAS secret before building for Android`);
+    }
+    console.warn(`${MAPS_KEY_VARIABLE} is not set; the device map will be blank on Android`);
+  }
+
+  return {
+    ...config,
+    name: config.name ?? 'letsparky-api-demo',
+    slug: config.slug ?? 'letsparky-api-demo',
+    android: {
+      ...config.android,
+      config: {
+        ...config.android?.config,
+        ...(apiKey ? { googleMaps: { apiKey } } : {}),
+      },
+    },
+  };
+};
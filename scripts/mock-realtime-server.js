@@ -0,0 +1,64 @@
+// Local stand-in for the device status push channel.
+//
+//   npm run mock:realtime
+//   EXPO_PUBLIC_REALTIME_URL=ws://<your-lan-ip>:8090 npm start
+//
+// Type "<deviceId> <STATUS>" (e.g. "abc123 BLOCKED") to push an event to every
+// subscribed client, or "drop" to close all sockets and exercise reconnection.
+const readline = require('readline');
+const { WebSocketServer } = require('ws');
+
+const port = Number(process.env.PORT || 8090);
+const server = new WebSocketServer({ port });
+const subscribers = new Set();
+
+server.on('connection', socket => {
+  console.log('client connected');
+
+  socket.on('message', raw => {
+    let message;
+    try {
+      message = JSON.parse(raw.toString());
+    } catch {
+      console.warn('ignoring non-JSON message');
+      return;
+    }
+
+    if (message.type === 'auth') {
+      console.log('auth with token', message.token ? `${String(message.token).slice(0, 8)}...` : '(none)');
+    } else if (message.type === 'subscribe') {
+      console.log('subscribed user', message.userId);
+      subscribers.add(socket);
+    }
+  });
+
+  socket.on('close', () => {
+    subscribers.delete(socket);
+    console.log('client disconnected');
+  });
+});
+
+const rl = readline.createInterface({ input: process.stdin });
+rl.on('line', line => {
+  const [deviceId, status] = line.trim().split(/\s+/);
+
+  if (deviceId === 'drop') {
+    server.clients.forEach(socket => socket.terminate());
+    return;
+  }
+  if (!deviceId || !status) {
+    console.log('usage: <deviceId> <STATUS> | drop');
+    return;
+  }
+
+  const event = JSON.stringify({
+    type: 'device-status',
+    deviceId,
+    status,
+    lastConnectionDate: new Date().toISOString(),
+  });
+  subscribers.forEach(socket => socket.send(event));
+  console.log(`pushed ${status} for ${deviceId} to ${subscribers.size} client(s)`);
+});
+
+console.log(`mock realtime server listening on ws://localhost:${port}`);
@@ -0,0 +1,173 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator, FlatList, Alert } from 'react-native';
+import { StoredAccount } from '../services/session';
+import { signOutAccount, switchAccount } from '../store/actions';
+import { useSession } from '../store/hooks';
+import { createLogger } from '../services/logger';
+
+const log = createLogger('AccountSwitcher');
+
+interface AccountSwitcherProps {
+  onBack: () => void;
+  onAddAccount: () => void;
+  // Called once another account became the active one
+  onSwitched?: () => void;
+}
+
+export const AccountSwitcher = ({ onBack, onAddAccount, onSwitched }: AccountSwitcherProps) => {
+  const { userId, accounts } = useSession();
+  const [busyUserId, setBusyUserId] = useState<string | null>(null);
+
+  const label = (account: StoredAccount) => account.email || account.userId;
+
+  const handleSwitch = async (account: StoredAccount) => {
+    if (account.userId === userId || busyUserId) {
+      return;
+    }
+    setBusyUserId(account.userId);
+    try {
+      await switchAccount(account.userId);
+      onSwitched?.();
+    } catch (error) {
+      log.error('Failed to switch account:', error);
+      Alert.alert('Switch failed', `Could not switch to ${label(account)}`);
+    } finally {
+      setBusyUserId(null);
+    }
+  };
+
+  const handleSignOut = (account: StoredAccount) => {
+    Alert.alert(
+      'Log out',
+      `Log out of ${label(account)} on this device?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Log out',
+          style: 'destructive',
+          onPress: async () => {
+            setBusyUserId(account.userId);
+            try {
+              await signOutAccount(account.userId);
+            } catch (error) {
+              log.error('Failed to log out account:', error);
+            } finally {
+              setBusyUserId(null);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const renderAccount = ({ item }: { item: StoredAccount }) => {
+    const isActive = item.userId === userId;
+
+    return (
+      <View style={[styles.card, isActive && styles.cardActive]}>
+        <TouchableOpacity style={styles.accountInfo} onPress={() => handleSwitch(item)} disabled={isActive}>
+          <Text style={styles.accountName}>{label(item)}</Text>
+          <Text style={styles.accountMeta}>{isActive ? 'Active' : 'Tap to switch'}</Text>
+        </TouchableOpacity>
+        {busyUserId === item.userId ? (
+          <ActivityIndicator size="small" color="#F8AB16" />
+        ) : (
+          <TouchableOpacity onPress={() => handleSignOut(item)} disabled={Boolean(busyUserId)}>
+            <Text style={styles.signOutText}>Log out</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <TouchableOpacity onPress={onBack} style={styles.backButton}>
+        <Text style={styles.backText}>‹ Back</Text>
+      </TouchableOpacity>
+      <Text style={styles.title}>Accounts</Text>
+
+      <FlatList
+        data={accounts}
+        renderItem={renderAccount}
+        keyExtractor={item => item.userId}
+        contentContainerStyle={styles.listContent}
+      />
+
+      <TouchableOpacity style={styles.button} onPress={onAddAccount} disabled={Boolean(busyUserId)}>
+        <Text style={styles.buttonText}>Add account</Text>
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    padding: 16,
+    gap: 12,
+  },
+  backButton: {
+    paddingVertical: 4,
+  },
+  backText: {
+    fontSize: 16,
+    color: '#F8AB16',
+    fontWeight: '600',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#333',
+  },
+  listContent: {
+    gap: 8,
+  },
+  card: {
+    backgroundColor: 'white',
+    borderRadius: 8,
+    padding: 16,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    borderLeftWidth: 4,
+    borderLeftColor: 'transparent',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  cardActive: {
+    borderLeftColor: '#F8AB16',
+  },
+  accountInfo: {
+    flex: 1,
+    gap: 2,
+  },
+  accountName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  accountMeta: {
+    fontSize: 13,
+    color: '#666',
+  },
+  signOutText: {
+    color: '#c62828',
+    fontWeight: '600',
+  },
+  button: {
+    height: 45,
+    justifyContent: 'center',
+    alignItems: 'center',
+    borderRadius: 5,
+    backgroundColor: '#F8AB16',
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,314 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator, FlatList, Alert } from 'react-native';
+import { UserDevice } from '../services/api';
+import {
+  ACTIVITY_LABELS,
+  ActivityEvent,
+  ActivityRange,
+  activityToCsv,
+  fetchActivity,
+  fetchAllActivity,
+} from '../services/activity';
+import { shareTextFile } from '../services/fileExport';
+import { createLogger } from '../services/logger';
+
+const log = createLogger('ActivityLog');
+
+interface ActivityLogProps {
+  userDevice: UserDevice;
+  onBack: () => void;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const RANGE_OPTIONS: { label: string; days: number | null }[] = [
+  { label: '24 hours', days: 1 },
+  { label: '7 days', days: 7 },
+  { label: '30 days', days: 30 },
+  { label: 'All time', days: null },
+];
+
+const rangeFromDays = (days: number | null): ActivityRange => ({
+  from: days === null ? null : new Date(Date.now() - days * DAY_MS).toISOString(),
+  to: null,
+});
+
+const resultColor = (result: ActivityEvent['result']) => {
+  switch (result) {
+    case 'SUCCESS':
+      return '#2e7d32';
+    case 'FAILED':
+      return '#c62828';
+    default:
+      return '#666';
+  }
+};
+
+export const ActivityLog = ({ userDevice, onBack }: ActivityLogProps) => {
+  const deviceId = userDevice.device.id;
+  const [rangeDays, setRangeDays] = useState<number | null>(7);
+  const [events, setEvents] = useState<ActivityEvent[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState('');
+  // The range is resolved once per selection so later pages stay consistent
+  const range = useRef<ActivityRange>(rangeFromDays(rangeDays));
+  // Bumped on every new selection; responses tagged with an older value belong to a range no longer shown
+  const generation = useRef(0);
+
+  const loadFirstPage = async () => {
+    const current = ++generation.current;
+    range.current = rangeFromDays(rangeDays);
+    setIsLoading(true);
+    setIsLoadingMore(false);
+    setError('');
+    try {
+      const page = await fetchActivity(deviceId, range.current);
+      if (current !== generation.current) {
+        return;
+      }
+      setEvents(page.items);
+      setNextCursor(page.nextCursor);
+    } catch (err) {
+      log.error('Failed to load activity:', err);
+      if (current === generation.current) {
+        setError('Failed to load activity');
+      }
+    } finally {
+      if (current === generation.current) {
+        setIsLoading(false);
+      }
+    }
+  };
+
+  useEffect(() => {
+    loadFirstPage();
+  }, [deviceId, rangeDays]);
+
+  const loadMore = async () => {
+    if (!nextCursor || isLoadingMore || isLoading) {
+      return;
+    }
+    const current = generation.current;
+    setIsLoadingMore(true);
+    try {
+      const page = await fetchActivity(deviceId, range.current, nextCursor);
+      if (current !== generation.current) {
+        return;
+      }
+      setEvents(prev => [...prev, ...page.items]);
+      setNextCursor(page.nextCursor);
+    } catch (err) {
+      log.error('Failed to load more activity:', err);
+      if (current === generation.current) {
+        setError('Failed to load more activity');
+      }
+    } finally {
+      if (current === generation.current) {
+        setIsLoadingMore(false);
+      }
+    }
+  };
+
+  const share = async (events: ActivityEvent[]) => {
+    try {
+      await shareTextFile(`${userDevice.device.serialNo}-activity.csv`, activityToCsv(events), 'text/csv');
+    } catch (err: any) {
+      log.error('Failed to share activity export:', err);
+      setError(err?.message || 'Failed to export activity');
+    }
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setError('');
+    try {
+      const { events: all, truncated } = await fetchAllActivity(deviceId, range.current);
+      if (truncated) {
+        // Oldest events are the ones left out, since pages come newest first
+        Alert.alert(
+          'Export is incomplete',
+          `This range has more activity than one export can hold. Only the newest ${all.length} events will be included; pick a shorter range to get the rest.`,
+          [
+            { text: 'Cancel', style: 'cancel' },
+            { text: 'Export anyway', onPress: () => share(all) },
+          ]
+        );
+        return;
+      }
+      await share(all);
+    } catch (err: any) {
+      log.error('Failed to export activity:', err);
+      setError(err?.message || 'Failed to export activity');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const renderEvent = ({ item }: { item: ActivityEvent }) => (
+    <View style={styles.eventCard}>
+      <View style={styles.eventHeader}>
+        <Text style={styles.eventType}>{ACTIVITY_LABELS[item.type]}</Text>
+        <Text style={[styles.eventResult, { color: resultColor(item.result) }]}>{item.result}</Text>
+      </View>
+      <Text style={styles.eventMeta}>{new Date(item.timestamp).toLocaleString()}</Text>
+      <Text style={styles.eventMeta}>By {item.actor?.name ?? 'System'}</Text>
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      <TouchableOpacity onPress={onBack} style={styles.backButton}>
+        <Text style={styles.backText}>‹ {userDevice.device.nickName || userDevice.device.serialNo}</Text>
+      </TouchableOpacity>
+      <View style={styles.titleRow}>
+        <Text style={styles.title}>Activity</Text>
+        <TouchableOpacity onPress={handleExport} disabled={isExporting || isLoading}>
+          {isExporting ? (
+            <ActivityIndicator size="small" color="#F8AB16" />
+          ) : (
+            <Text style={styles.exportText}>Export CSV</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.optionRow}>
+        {RANGE_OPTIONS.map(option => (
+          <TouchableOpacity
+            key={option.label}
+            style={[styles.option, rangeDays === option.days ? styles.optionSelected : styles.optionIdle]}
+            onPress={() => setRangeDays(option.days)}
+          >
+            <Text style={[styles.optionText, rangeDays === option.days && styles.optionTextSelected]}>
+              {option.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {error ? <Text style={styles.errorText}>{error}</Text> : null}
+
+      {isLoading ? (
+        <ActivityIndicator size="large" color="#F8AB16" style={styles.loader} />
+      ) : (
+        <FlatList
+          data={events}
+          renderItem={renderEvent}
+          keyExtractor={item => item.id}
+          contentContainerStyle={styles.listContent}
+          onEndReached={loadMore}
+          onEndReachedThreshold={0.5}
+          refreshing={isLoading}
+          onRefresh={loadFirstPage}
+          ListEmptyComponent={<Text style={styles.emptyText}>No activity in this period</Text>}
+          ListFooterComponent={isLoadingMore ? <ActivityIndicator size="small" color="#F8AB16" /> : null}
+        />
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    padding: 16,
+    gap: 12,
+  },
+  backButton: {
+    paddingVertical: 4,
+  },
+  backText: {
+    fontSize: 16,
+    color: '#F8AB16',
+    fontWeight: '600',
+  },
+  titleRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#333',
+  },
+  exportText: {
+    color: '#F8AB16',
+    fontWeight: '600',
+  },
+  optionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  option: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  optionIdle: {
+    borderColor: '#ccc',
+    backgroundColor: '#fff',
+  },
+  optionSelected: {
+    borderColor: '#F8AB16',
+    backgroundColor: '#F8AB16',
+  },
+  optionText: {
+    color: '#666',
+    fontWeight: '500',
+  },
+  optionTextSelected: {
+    color: '#fff',
+  },
+  errorText: {
+    color: '#c62828',
+    backgroundColor: '#ffebee',
+    padding: 10,
+    borderRadius: 5,
+  },
+  loader: {
+    marginTop: 20,
+  },
+  listContent: {
+    gap: 8,
+    paddingBottom: 16,
+  },
+  eventCard: {
+    backgroundColor: 'white',
+    borderRadius: 8,
+    padding: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.1,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  eventHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 4,
+  },
+  eventType: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  eventResult: {
+    fontSize: 12,
+    fontWeight: '700',
+  },
+  eventMeta: {
+    fontSize: 13,
+    color: '#666',
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#666',
+    textAlign: 'center',
+    padding: 20,
+  },
+});
@@ -0,0 +1,45 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { LoginCredentials } from './LoginCredentials';
+
+interface AddAccountProps {
+  onBack: () => void;
+  onLoginSuccess: (accessToken: string) => Promise<void>;
+}
+
+// Sign in to one more account; the current one stays stored for the switcher
+export const AddAccount = ({ onBack, onLoginSuccess }: AddAccountProps) => (
+  <View style={styles.container}>
+    <View style={styles.header}>
+      <TouchableOpacity onPress={onBack} style={styles.backButton}>
+        <Text style={styles.backText}>‹ Accounts</Text>
+      </TouchableOpacity>
+      <Text style={styles.title}>Add account</Text>
+    </View>
+    <LoginCredentials onLoginSuccess={onLoginSuccess} allowDemoMode={false} />
+  </View>
+);
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    paddingHorizontal: 16,
+    paddingTop: 16,
+    gap: 12,
+  },
+  backButton: {
+    paddingVertical: 4,
+  },
+  backText: {
+    fontSize: 16,
+    color: '#F8AB16',
+    fontWeight: '600',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#333',
+  },
+});
@@ -0,0 +1,296 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { View, Text, TextInput, StyleSheet, TouchableOpacity, FlatList } from 'react-native';
+import {
+  acknowledge,
+  getAlertThresholds,
+  getAlerts,
+  snooze,
+  subscribeAlerts,
+  updateAlertThresholds,
+} from '../services/alerts';
+import { ALERT_KIND_LABELS, Alert, isAlertSnoozed, sortAlerts } from '../utils/alertRules';
+import { createLogger } from '../services/logger';
+
+const log = createLogger('AlertsInbox');
+
+interface AlertsInboxProps {
+  onBack: () => void;
+  onSelectDevice?: (deviceId: string) => void;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const SNOOZE_OPTIONS = [
+  { label: 'Snooze 1 h', duration: HOUR_MS },
+  { label: 'Snooze 1 day', duration: 24 * HOUR_MS },
+];
+
+export const AlertsInbox = ({ onBack, onSelectDevice }: AlertsInboxProps) => {
+  const [alerts, setAlerts] = useState<Alert[]>(getAlerts());
+  const [voltage, setVoltage] = useState(String(getAlertThresholds().minBatteryVoltage));
+  const [bars, setBars] = useState(String(getAlertThresholds().minSignalBars));
+  const [hours, setHours] = useState(String(getAlertThresholds().offlineAfterHours));
+  const [settingsMessage, setSettingsMessage] = useState('');
+
+  useEffect(() => subscribeAlerts(setAlerts), []);
+
+  const now = Date.now();
+  const sorted = useMemo(() => sortAlerts(alerts, now), [alerts]);
+
+  const handleSaveThresholds = async () => {
+    const next = {
+      minBatteryVoltage: Number(voltage.replace(',', '.')),
+      minSignalBars: Number(bars),
+      offlineAfterHours: Number(hours.replace(',', '.')),
+    };
+    if (!(next.minBatteryVoltage > 0) || next.minBatteryVoltage > 15) {
+      setSettingsMessage('Battery threshold must be a voltage between 0 and 15');
+      return;
+    }
+    if (!Number.isInteger(next.minSignalBars) || next.minSignalBars < 0 || next.minSignalBars > 4) {
+      setSettingsMessage('Signal threshold must be a whole number of bars from 0 to 4');
+      return;
+    }
+    if (!(next.offlineAfterHours > 0)) {
+      setSettingsMessage('Offline threshold must be a positive number of hours');
+      return;
+    }
+
+    try {
+      await updateAlertThresholds(next);
+      setSettingsMessage('Thresholds saved');
+    } catch (err) {
+      log.error('Failed to save alert thresholds:', err);
+      setSettingsMessage('Failed to save thresholds');
+    }
+  };
+
+  const describeState = (alert: Alert) => {
+    if (alert.acknowledgedAt !== null) {
+      return 'Acknowledged';
+    }
+    if (isAlertSnoozed(alert, now)) {
+      return `Snoozed until ${new Date(alert.snoozedUntil!).toLocaleString()}`;
+    }
+    return null;
+  };
+
+  const renderAlert = ({ item }: { item: Alert }) => {
+    const state = describeState(item);
+
+    return (
+      <View style={[styles.alertCard, state ? styles.alertCardMuted : null]}>
+        <TouchableOpacity onPress={() => onSelectDevice?.(item.deviceId)}>
+          <View style={styles.alertHeader}>
+            <Text style={styles.alertDevice}>{item.deviceName}</Text>
+            <Text style={[styles.alertKind, state ? styles.alertKindMuted : null]}>
+              {ALERT_KIND_LABELS[item.kind]}
+            </Text>
+          </View>
+          <Text style={styles.alertMessage}>{item.message}</Text>
+          <Text style={styles.alertMeta}>Since {new Date(item.raisedAt).toLocaleString()}</Text>
+        </TouchableOpacity>
+        {state ? (
+          <Text style={styles.alertMeta}>{state}</Text>
+        ) : (
+          <View style={styles.optionRow}>
+            <TouchableOpacity style={[styles.option, styles.optionSelected]} onPress={() => acknowledge(item.id)}>
+              <Text style={[styles.optionText, styles.optionTextSelected]}>Acknowledge</Text>
+            </TouchableOpacity>
+            {SNOOZE_OPTIONS.map(option => (
+              <TouchableOpacity
+                key={option.label}
+                style={[styles.option, styles.optionIdle]}
+                onPress={() => snooze(item.id, option.duration)}
+              >
+                <Text style={styles.optionText}>{option.label}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <TouchableOpacity onPress={onBack} style={styles.backButton}>
+        <Text style={styles.backText}>‹ Devices</Text>
+      </TouchableOpacity>
+      <Text style={styles.title}>Alerts</Text>
+
+      <View style={styles.card}>
+        <Text style={styles.label}>Notify me when</Text>
+        <View style={styles.thresholdRow}>
+          <Text style={styles.thresholdText}>Battery below (V)</Text>
+          <TextInput style={styles.input} value={voltage} onChangeText={setVoltage} keyboardType="decimal-pad" />
+        </View>
+        <View style={styles.thresholdRow}>
+          <Text style={styles.thresholdText}>Signal below (bars)</Text>
+          <TextInput style={styles.input} value={bars} onChangeText={setBars} keyboardType="number-pad" />
+        </View>
+        <View style={styles.thresholdRow}>
+          <Text style={styles.thresholdText}>No connection for (h)</Text>
+          <TextInput style={styles.input} value={hours} onChangeText={setHours} keyboardType="decimal-pad" />
+        </View>
+        {settingsMessage ? <Text style={styles.alertMeta}>{settingsMessage}</Text> : null}
+        <TouchableOpacity style={styles.button} onPress={handleSaveThresholds}>
+          <Text style={styles.buttonText}>Save thresholds</Text>
+        </TouchableOpacity>
+      </View>
+
+      <FlatList
+        data={sorted}
+        renderItem={renderAlert}
+        keyExtractor={item => item.id}
+        contentContainerStyle={styles.listContent}
+        ListEmptyComponent={<Text style={styles.emptyText}>All barriers look healthy</Text>}
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    padding: 16,
+    gap: 12,
+  },
+  backButton: {
+    paddingVertical: 4,
+  },
+  backText: {
+    fontSize: 16,
+    color: '#F8AB16',
+    fontWeight: '600',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#333',
+  },
+  card: {
+    backgroundColor: 'white',
+    borderRadius: 8,
+    padding: 16,
+    gap: 8,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  label: {
+    fontSize: 12,
+    color: '#999',
+    textTransform: 'uppercase',
+  },
+  thresholdRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  thresholdText: {
+    fontSize: 15,
+    color: '#333',
+  },
+  input: {
+    width: 80,
+    borderWidth: 1,
+    borderColor: '#ccc',
+    borderRadius: 5,
+    padding: 8,
+    textAlign: 'right',
+  },
+  button: {
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+    borderRadius: 5,
+    backgroundColor: '#F8AB16',
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  listContent: {
+    gap: 8,
+    paddingBottom: 16,
+  },
+  alertCard: {
+    backgroundColor: 'white',
+    borderRadius: 8,
+    padding: 12,
+    gap: 8,
+    borderLeftWidth: 4,
+    borderLeftColor: '#c62828',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.1,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  alertCardMuted: {
+    borderLeftColor: '#ccc',
+  },
+  alertHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 4,
+  },
+  alertDevice: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    flexShrink: 1,
+  },
+  alertKind: {
+    fontSize: 12,
+    fontWeight: '700',
+    color: '#c62828',
+  },
+  alertKindMuted: {
+    color: '#666',
+  },
+  alertMessage: {
+    fontSize: 15,
+    color: '#333',
+  },
+  alertMeta: {
+    fontSize: 13,
+    color: '#666',
+  },
+  optionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  option: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  optionIdle: {
+    borderColor: '#ccc',
+    backgroundColor: '#fff',
+  },
+  optionSelected: {
+    borderColor: '#F8AB16',
+    backgroundColor: '#F8AB16',
+  },
+  optionText: {
+    color: '#666',
+    fontWeight: '500',
+  },
+  optionTextSelected: {
+    color: '#fff',
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#666',
+    textAlign: 'center',
+    padding: 20,
+  },
+});
@@ -0,0 +1,130 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { BatchItem, BatchItemState, retryableItems, summarizeBatch } from '../services/batchCommands';
+import { cancelBatch, dismissBatch, retryFailedBatch } from '../store/batch';
+import { useAppState, useBatch } from '../store/hooks';
+
+const ITEM_STATE_LABELS: Record<BatchItemState, string> = {
+  queued: 'Waiting',
+  sending: 'Sending',
+  confirming: 'Waiting for the barrier',
+  confirmed: 'Confirmed',
+  failed: 'Failed',
+  timeout: 'Timed out',
+  cancelled: 'Cancelled',
+};
+
+// Progress of the running bulk command, then its summary until dismissed
+export const BatchProgress = () => {
+  const batch = useBatch();
+  const devicesById = useAppState(state => state.visible.byId);
+
+  if (!batch) {
+    return null;
+  }
+
+  const summary = summarizeBatch(batch.items);
+  const retryable = retryableItems(batch.items);
+  const verb = batch.action === 'block' ? 'Blocking' : 'Unblocking';
+  const name = (item: BatchItem) => {
+    const userDevice = devicesById[item.deviceId];
+    return userDevice ? userDevice.device.nickName || userDevice.device.serialNo : item.deviceId;
+  };
+
+  return (
+    <View style={styles.card}>
+      <Text style={styles.title}>
+        {batch.isRunning
+          ? `${verb} ${batch.items.length} device(s): ${batch.items.length - summary.pending} done`
+          : `${verb} finished`}
+      </Text>
+      <Text style={styles.summary}>
+        {summary.confirmed} confirmed · {summary.failed} failed · {summary.timedOut} timed out
+        {summary.cancelled ? ` · ${summary.cancelled} cancelled` : ''}
+      </Text>
+
+      {batch.items
+        .filter(item => batch.isRunning || item.state !== 'confirmed')
+        .map(item => (
+          <Text key={item.deviceId} style={styles.itemText}>
+            {name(item)}: {ITEM_STATE_LABELS[item.state]}{item.error ? ` (${item.error})` : ''}
+          </Text>
+        ))}
+
+      <View style={styles.optionRow}>
+        {batch.isRunning ? (
+          <TouchableOpacity style={[styles.option, styles.optionIdle]} onPress={cancelBatch}>
+            <Text style={styles.optionText}>Cancel</Text>
+          </TouchableOpacity>
+        ) : (
+          <>
+            {retryable.length > 0 && (
+              <TouchableOpacity style={[styles.option, styles.optionSelected]} onPress={retryFailedBatch}>
+                <Text style={[styles.optionText, styles.optionTextSelected]}>Retry failed ({retryable.length})</Text>
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity style={[styles.option, styles.optionIdle]} onPress={dismissBatch}>
+              <Text style={styles.optionText}>Dismiss</Text>
+            </TouchableOpacity>
+          </>
+        )}
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: 'white',
+    borderRadius: 8,
+    padding: 12,
+    gap: 6,
+    borderLeftWidth: 4,
+    borderLeftColor: '#F8AB16',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.1,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  summary: {
+    fontSize: 14,
+    color: '#333',
+  },
+  itemText: {
+    fontSize: 13,
+    color: '#666',
+  },
+  optionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 4,
+  },
+  option: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  optionIdle: {
+    borderColor: '#ccc',
+    backgroundColor: '#fff',
+  },
+  optionSelected: {
+    borderColor: '#F8AB16',
+    backgroundColor: '#F8AB16',
+  },
+  optionText: {
+    color: '#666',
+    fontWeight: '500',
+  },
+  optionTextSelected: {
+    color: '#fff',
+  },
+});
@@ -0,0 +1,336 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { View, Text, TextInput, StyleSheet, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { CameraView, useCameraPermissions } from 'expo-camera';
+import { UserDevice, claimDevice, renameDevice } from '../services/api';
+import { WatchHandle, watchDevice } from '../services/deviceWatcher';
+import { isValidSerial, normalizeSerial, parseSerialFromQr } from '../utils/serial';
+import { loadDevices } from '../store/actions';
+import { createLogger } from '../services/logger';
+
+const log = createLogger('ClaimDevice');
+
+interface ClaimDeviceProps {
+  onBack: () => void;
+}
+
+type Step = 'serial' | 'scan' | 'name' | 'connecting' | 'done';
+
+// A freshly powered barrier can take a while to register on GSM
+const FIRST_CONNECTION_TIMEOUT = 3 * 60 * 1000;
+
+export const ClaimDevice = ({ onBack }: ClaimDeviceProps) => {
+  const [step, setStep] = useState<Step>('serial');
+  const [serial, setSerial] = useState('');
+  const [nickName, setNickName] = useState('');
+  const [claimed, setClaimed] = useState<UserDevice | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState('');
+  const [isConnected, setIsConnected] = useState(false);
+  const [permission, requestPermission] = useCameraPermissions();
+  const connectionWatch = useRef<WatchHandle | null>(null);
+  // Set synchronously so a burst of barcode callbacks before the next render claims only once
+  const claimInFlight = useRef(false);
+
+  useEffect(() => () => connectionWatch.current?.cancel(), []);
+
+  const handleClaim = async (input: string = serial) => {
+    if (claimInFlight.current) {
+      return;
+    }
+    if (!isValidSerial(input)) {
+      setError('Serial numbers are 8-16 letters and digits, as printed on the barrier label');
+      return;
+    }
+
+    claimInFlight.current = true;
+    setIsBusy(true);
+    setError('');
+    try {
+      const userDevice = await claimDevice(normalizeSerial(input));
+      setClaimed(userDevice);
+      setNickName(userDevice.device.nickName);
+      setStep('name');
+      await loadDevices();
+    } catch (err: any) {
+      log.error('Failed to claim device:', err);
+      setError(err?.message || 'Failed to claim the device');
+      setStep('serial');
+    } finally {
+      claimInFlight.current = false;
+      setIsBusy(false);
+    }
+  };
+
+  const handleScan = async () => {
+    if (!permission?.granted) {
+      const result = await requestPermission();
+      if (!result.granted) {
+        setError('Camera permission is needed to scan the QR code');
+        return;
+      }
+    }
+    setError('');
+    setStep('scan');
+  };
+
+  const handleBarcode = ({ data }: { data: string }) => {
+    if (step !== 'scan' || claimInFlight.current) {
+      return;
+    }
+    const scanned = parseSerialFromQr(data);
+    if (!scanned) {
+      setError('That QR code is not a LetsParky barrier label');
+      setStep('serial');
+      return;
+    }
+    setSerial(scanned);
+    handleClaim(scanned);
+  };
+
+  // Compared against the connection date the claim response carried, so only server timestamps are involved
+  const waitForFirstConnection = (userDevice: UserDevice) => {
+    const previousConnection = userDevice.device.lastConnectionDate;
+    const handle = watchDevice(
+      userDevice.device.id,
+      ({ device: { lastConnectionDate } }) =>
+        Boolean(lastConnectionDate) &&
+        (!previousConnection || Date.parse(lastConnectionDate!) > Date.parse(previousConnection)),
+      FIRST_CONNECTION_TIMEOUT
+    );
+    connectionWatch.current = handle;
+    setStep('connecting');
+
+    handle.promise.then(result => {
+      if (result.status === 'cancelled') {
+        return;
+      }
+      setIsConnected(result.status === 'reached');
+      setStep('done');
+      loadDevices();
+    });
+  };
+
+  const handleSaveName = async () => {
+    if (!claimed) {
+      return;
+    }
+    const trimmed = nickName.trim();
+
+    setIsBusy(true);
+    setError('');
+    try {
+      if (trimmed && trimmed !== claimed.device.nickName) {
+        await renameDevice(claimed.device.id, trimmed);
+      }
+      waitForFirstConnection(claimed);
+    } catch (err: any) {
+      log.error('Failed to rename device:', err);
+      setError(err?.message || 'Failed to save the name');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <TouchableOpacity onPress={onBack} style={styles.backButton}>
+        <Text style={styles.backText}>‹ Devices</Text>
+      </TouchableOpacity>
+      <Text style={styles.title}>Add a barrier</Text>
+
+      {error ? <Text style={styles.errorText}>{error}</Text> : null}
+
+      {step === 'serial' && (
+        <View style={styles.card}>
+          <Text style={styles.hint}>Enter the serial number from the label on the barrier, or scan its QR code.</Text>
+          <TextInput
+            style={styles.input}
+            placeholder="Serial number"
+            value={serial}
+            onChangeText={setSerial}
+            autoCapitalize="characters"
+            autoCorrect={false}
+          />
+          <TouchableOpacity
+            style={[styles.button, isBusy ? styles.buttonDisabled : styles.buttonActive]}
+            onPress={() => handleClaim()}
+            disabled={isBusy}
+          >
+            {isBusy ? (
+              <ActivityIndicator size="small" color="#fff" />
+            ) : (
+              <Text style={styles.buttonText}>Claim device</Text>
+            )}
+          </TouchableOpacity>
+          <TouchableOpacity style={[styles.button, styles.buttonSecondary]} onPress={handleScan} disabled={isBusy}>
+            <Text style={styles.buttonSecondaryText}>Scan QR code</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      {step === 'scan' && (
+        <View style={styles.scanner}>
+          <CameraView
+            style={styles.camera}
+            facing="back"
+            barcodeScannerSettings={{ barcodeTypes: ['qr'] }}
+            onBarcodeScanned={isBusy ? undefined : handleBarcode}
+          />
+          {isBusy && <ActivityIndicator size="large" color="#F8AB16" style={styles.scannerBusy} />}
+          <TouchableOpacity style={[styles.button, styles.buttonSecondary]} onPress={() => setStep('serial')}>
+            <Text style={styles.buttonSecondaryText}>Enter serial manually</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      {step === 'name' && claimed && (
+        <View style={styles.card}>
+          <Text style={styles.hint}>Barrier {claimed.device.serialNo} is now linked to your account. Give it a name:</Text>
+          <TextInput
+            style={styles.input}
+            placeholder="e.g. Home parking spot"
+            value={nickName}
+            onChangeText={setNickName}
+            maxLength={40}
+          />
+          <TouchableOpacity
+            style={[styles.button, isBusy ? styles.buttonDisabled : styles.buttonActive]}
+            onPress={handleSaveName}
+            disabled={isBusy}
+          >
+            {isBusy ? (
+              <ActivityIndicator size="small" color="#fff" />
+            ) : (
+              <Text style={styles.buttonText}>Continue</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      )}
+
+      {step === 'connecting' && (
+        <View style={styles.card}>
+          <ActivityIndicator size="large" color="#F8AB16" />
+          <Text style={styles.hint}>
+            Waiting for the barrier to connect. Make sure it is powered on; this can take a couple of minutes.
+          </Text>
+          <TouchableOpacity
+            style={[styles.button, styles.buttonSecondary]}
+            onPress={() => {
+              connectionWatch.current?.cancel();
+              setStep('done');
+            }}
+          >
+            <Text style={styles.buttonSecondaryText}>Skip</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      {step === 'done' && (
+        <View style={styles.card}>
+          <Text style={styles.doneTitle}>{isConnected ? 'All set!' : 'Device added'}</Text>
+          <Text style={styles.hint}>
+            {isConnected
+              ? 'The barrier is online and ready to use.'
+              : 'The barrier has not connected yet. It will show up as online once it reports in.'}
+          </Text>
+          <TouchableOpacity style={[styles.button, styles.buttonActive]} onPress={onBack}>
+            <Text style={styles.buttonText}>Back to devices</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    padding: 16,
+    gap: 12,
+  },
+  backButton: {
+    paddingVertical: 4,
+  },
+  backText: {
+    fontSize: 16,
+    color: '#F8AB16',
+    fontWeight: '600',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#333',
+  },
+  errorText: {
+    color: '#c62828',
+    backgroundColor: '#ffebee',
+    padding: 10,
+    borderRadius: 5,
+  },
+  card: {
+    backgroundColor: 'white',
+    borderRadius: 8,
+    padding: 16,
+    gap: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  hint: {
+    fontSize: 15,
+    color: '#666',
+  },
+  doneTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#2e7d32',
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ccc',
+    borderRadius: 5,
+    padding: 10,
+  },
+  button: {
+    height: 45,
+    justifyContent: 'center',
+    alignItems: 'center',
+    borderRadius: 5,
+  },
+  buttonActive: {
+    backgroundColor: '#F8AB16',
+  },
+  buttonDisabled: {
+    backgroundColor: '#ccc',
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  buttonSecondary: {
+    borderWidth: 1,
+    borderColor: '#F8AB16',
+  },
+  buttonSecondaryText: {
+    color: '#F8AB16',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  scanner: {
+    flex: 1,
+    gap: 12,
+  },
+  camera: {
+    flex: 1,
+    borderRadius: 8,
+    overflow: 'hidden',
+  },
+  scannerBusy: {
+    position: 'absolute',
+    top: '45%',
+    alignSelf: 'center',
+  },
+});
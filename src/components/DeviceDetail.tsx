@@ -0,0 +1,379 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, TextInput, StyleSheet, TouchableOpacity, Image, ScrollView, Alert, ActivityIndicator } from 'react-native';
+import { UserDevice, canOperate, isOwner } from '../services/api';
+import { getStatusImage, getStatusLabel } from '../utils/deviceStatus';
+import { batteryPercentage, formatRelativeTime, isDeviceOffline, signalBars } from '../utils/telemetry';
+import { formatLocation, parseLocation } from '../utils/location';
+
+interface DeviceDetailProps {
+  userDevice: UserDevice;
+  onBack: () => void;
+  onManageAccess?: () => void;
+  onOpenSchedules?: () => void;
+  onOpenActivity?: () => void;
+  onRename?: (nickName: string) => Promise<void>;
+  onUnlink?: () => Promise<void>;
+}
+
+const batteryColor = (percentage: number) => {
+  if (percentage <= 20) return '#c62828';
+  if (percentage <= 50) return '#F8AB16';
+  return '#2e7d32';
+};
+
+export const DeviceDetail = ({
+  userDevice,
+  onBack,
+  onManageAccess,
+  onOpenSchedules,
+  onOpenActivity,
+  onRename,
+  onUnlink,
+}: DeviceDetailProps) => {
+  const { device } = userDevice;
+  const [now, setNow] = useState(Date.now());
+  const [draftName, setDraftName] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Keep "last seen" and the offline state current while the screen is open
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 60000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const battery = batteryPercentage(device.batteryVoltage);
+  const bars = signalBars(device.gsmSignal);
+  const offline = isDeviceOffline(device.lastConnectionDate, now);
+  const lastReport = !device.lastConnectionDate
+    ? 'This barrier has never reported in.'
+    : Number.isNaN(Date.parse(device.lastConnectionDate))
+      ? 'Its last report time is unknown.'
+      : `Last reported ${formatRelativeTime(device.lastConnectionDate, now).toLowerCase()}.`;
+
+  const handleSaveName = async () => {
+    const trimmed = draftName?.trim();
+    if (!trimmed || trimmed === device.nickName || !onRename) {
+      setDraftName(null);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await onRename(trimmed);
+      setDraftName(null);
+    } catch (error: any) {
+      Alert.alert('Rename failed', error?.message || 'Failed to rename the device');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleUnlink = () => {
+    Alert.alert(
+      'Remove device',
+      `${device.nickName || device.serialNo} will be removed from your account and every guest will lose access.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await onUnlink?.();
+            } catch (error: any) {
+              Alert.alert('Remove failed', error?.message || 'Failed to remove the device');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <TouchableOpacity onPress={onBack} style={styles.backButton}>
+        <Text style={styles.backText}>‹ Devices</Text>
+      </TouchableOpacity>
+
+      <View style={styles.header}>
+        <View style={styles.headerText}>
+          {draftName === null ? (
+            <Text style={styles.deviceName}>{device.nickName || device.serialNo}</Text>
+          ) : (
+            <View style={styles.renameRow}>
+              <TextInput
+                style={styles.renameInput}
+                value={draftName}
+                onChangeText={setDraftName}
+                onSubmitEditing={handleSaveName}
+                maxLength={40}
+                autoFocus
+              />
+              {isSaving ? (
+                <ActivityIndicator size="small" color="#F8AB16" />
+              ) : (
+                <TouchableOpacity onPress={handleSaveName}>
+                  <Text style={styles.linkText}>Save</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          )}
+          {isOwner(userDevice) && onRename && draftName === null && (
+            <TouchableOpacity onPress={() => setDraftName(device.nickName)}>
+              <Text style={styles.linkText}>Rename</Text>
+            </TouchableOpacity>
+          )}
+          <Text style={styles.subtitle}>S/N: {device.serialNo}</Text>
+          <Text style={styles.subtitle}>{device.type}</Text>
+        </View>
+        <Image source={getStatusImage(device.status)} style={styles.statusImage} />
+      </View>
+
+      {offline && (
+        <View style={styles.offlineBanner}>
+          <Text style={styles.offlineTitle}>Offline</Text>
+          <Text style={styles.offlineText}>
+            {lastReport} Check its power and GSM coverage.
+          </Text>
+        </View>
+      )}
+
+      <View style={styles.section}>
+        <Text style={styles.label}>Status</Text>
+        <Text style={styles.value}>{getStatusLabel(device.status)}</Text>
+      </View>
+
+      <View style={styles.section}>
+        <Text style={styles.label}>Battery</Text>
+        {battery === null ? (
+          <Text style={styles.value}>Unknown</Text>
+        ) : (
+          <View style={styles.batteryRow}>
+            <View style={styles.batteryOutline}>
+              <View
+                style={[
+                  styles.batteryFill,
+                  { width: `${battery}%`, backgroundColor: batteryColor(battery) },
+                ]}
+              />
+            </View>
+            <Text style={styles.value}>
+              {battery}% ({device.batteryVoltage?.toFixed(2)} V)
+            </Text>
+          </View>
+        )}
+      </View>
+
+      <View style={styles.section}>
+        <Text style={styles.label}>GSM signal</Text>
+        {bars === null ? (
+          <Text style={styles.value}>Unknown</Text>
+        ) : (
+          <View style={styles.signalRow}>
+            {[1, 2, 3, 4].map(level => (
+              <View
+                key={level}
+                style={[
+                  styles.signalBar,
+                  { height: 6 + level * 5 },
+                  level <= bars ? styles.signalBarActive : styles.signalBarInactive,
+                ]}
+              />
+            ))}
+            <Text style={styles.value}>{bars}/4</Text>
+          </View>
+        )}
+      </View>
+
+      <View style={styles.section}>
+        <Text style={styles.label}>Last seen</Text>
+        <Text style={styles.value}>
+          {formatRelativeTime(device.lastConnectionDate, now)}
+          {device.lastConnectionDate ? ` (${new Date(device.lastConnectionDate).toLocaleString()})` : ''}
+        </Text>
+      </View>
+
+      <View style={styles.section}>
+        <Text style={styles.label}>Location</Text>
+        <Text style={styles.value}>{formatLocation(parseLocation(device.location))}</Text>
+      </View>
+
+      <View style={styles.section}>
+        <Text style={styles.label}>History</Text>
+        <TouchableOpacity style={styles.actionButton} onPress={onOpenActivity}>
+          <Text style={styles.actionButtonText}>Activity log</Text>
+        </TouchableOpacity>
+      </View>
+
+      {canOperate(userDevice) && (
+        <View style={styles.section}>
+          <Text style={styles.label}>Automation</Text>
+          <TouchableOpacity style={styles.actionButton} onPress={onOpenSchedules}>
+            <Text style={styles.actionButtonText}>Block / unblock schedules</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      <View style={styles.section}>
+        <Text style={styles.label}>Access</Text>
+        {isOwner(userDevice) ? (
+          <TouchableOpacity style={styles.actionButton} onPress={onManageAccess}>
+            <Text style={styles.actionButtonText}>Manage access</Text>
+          </TouchableOpacity>
+        ) : (
+          <Text style={styles.value}>
+            Shared with you · {canOperate(userDevice) ? 'View & operate' : 'View only'}
+          </Text>
+        )}
+      </View>
+
+      {isOwner(userDevice) && onUnlink && (
+        <TouchableOpacity style={styles.unlinkButton} onPress={handleUnlink}>
+          <Text style={styles.unlinkText}>Remove device from account</Text>
+        </TouchableOpacity>
+      )}
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: 16,
+    gap: 12,
+  },
+  backButton: {
+    paddingVertical: 4,
+  },
+  backText: {
+    fontSize: 16,
+    color: '#F8AB16',
+    fontWeight: '600',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  headerText: {
+    flexShrink: 1,
+  },
+  deviceName: {
+    fontSize: 28,
+    fontWeight: '600',
+    color: '#333',
+  },
+  renameRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  renameInput: {
+    flex: 1,
+    fontSize: 22,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F8AB16',
+    paddingVertical: 4,
+  },
+  linkText: {
+    color: '#F8AB16',
+    fontWeight: '600',
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#666',
+  },
+  statusImage: {
+    width: 80,
+    height: 80,
+    resizeMode: 'contain',
+  },
+  offlineBanner: {
+    backgroundColor: '#ffebee',
+    borderRadius: 8,
+    padding: 12,
+  },
+  offlineTitle: {
+    color: '#c62828',
+    fontWeight: '700',
+    marginBottom: 4,
+  },
+  offlineText: {
+    color: '#c62828',
+  },
+  section: {
+    backgroundColor: 'white',
+    borderRadius: 8,
+    padding: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  label: {
+    fontSize: 12,
+    color: '#999',
+    textTransform: 'uppercase',
+    marginBottom: 6,
+  },
+  value: {
+    fontSize: 16,
+    color: '#333',
+  },
+  actionButton: {
+    borderRadius: 8,
+    paddingVertical: 12,
+    alignItems: 'center',
+    backgroundColor: '#F8AB16',
+  },
+  actionButtonText: {
+    color: 'white',
+    fontWeight: '600',
+  },
+  unlinkButton: {
+    borderRadius: 8,
+    paddingVertical: 12,
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: '#c62828',
+  },
+  unlinkText: {
+    color: '#c62828',
+    fontWeight: '600',
+  },
+  batteryRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  batteryOutline: {
+    width: 80,
+    height: 24,
+    borderWidth: 2,
+    borderColor: '#666',
+    borderRadius: 4,
+    padding: 2,
+  },
+  batteryFill: {
+    height: '100%',
+    borderRadius: 2,
+  },
+  signalRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    gap: 4,
+  },
+  signalBar: {
+    width: 8,
+    borderRadius: 2,
+  },
+  signalBarActive: {
+    backgroundColor: '#F8AB16',
+  },
+  signalBarInactive: {
+    backgroundColor: '#ddd',
+  },
+});
@@ -0,0 +1,171 @@
+import React, { useState } from 'react';
+import { View, Text, TextInput, StyleSheet, TouchableOpacity, ScrollView } from 'react-native';
+import { DeviceStatusKind } from '../utils/deviceStatus';
+import { DeviceQuery, DeviceSort, SORT_LABELS, toggleValue } from '../utils/deviceQuery';
+
+interface DeviceFiltersProps {
+  query: DeviceQuery;
+  onChange: (query: DeviceQuery) => void;
+  options: {
+    statuses: DeviceStatusKind[];
+    types: string[];
+    relationships: string[];
+  };
+}
+
+interface ChipProps {
+  label: string;
+  selected: boolean;
+  onPress: () => void;
+}
+
+const Chip = ({ label, selected, onPress }: ChipProps) => (
+  <TouchableOpacity
+    style={[styles.chip, selected ? styles.chipSelected : styles.chipIdle]}
+    onPress={onPress}
+  >
+    <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{label}</Text>
+  </TouchableOpacity>
+);
+
+export const DeviceFilters = ({ query, onChange, options }: DeviceFiltersProps) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const activeFilters = query.statuses.length + query.types.length + query.relationships.length;
+
+  const update = (patch: Partial<DeviceQuery>) => onChange({ ...query, ...patch });
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.searchRow}>
+        <TextInput
+          style={styles.searchInput}
+          placeholder="Search by name or serial number"
+          value={query.search}
+          onChangeText={search => update({ search })}
+          autoCapitalize="none"
+          autoCorrect={false}
+          clearButtonMode="while-editing"
+        />
+        <TouchableOpacity style={styles.toggle} onPress={() => setIsExpanded(prev => !prev)}>
+          <Text style={styles.toggleText}>
+            Filters{activeFilters ? ` (${activeFilters})` : ''}
+          </Text>
+        </TouchableOpacity>
+      </View>
+
+      {isExpanded && (
+        <View style={styles.panel}>
+          <Text style={styles.groupLabel}>Sort by</Text>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+            {(Object.keys(SORT_LABELS) as DeviceSort[]).map(sort => (
+              <Chip
+                key={sort}
+                label={SORT_LABELS[sort]}
+                selected={query.sort === sort}
+                onPress={() => update({ sort })}
+              />
+            ))}
+          </ScrollView>
+
+          <Text style={styles.groupLabel}>Status</Text>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+            {options.statuses.map(status => (
+              <Chip
+                key={status}
+                label={status}
+                selected={query.statuses.includes(status)}
+                onPress={() => update({ statuses: toggleValue(query.statuses, status) })}
+              />
+            ))}
+          </ScrollView>
+
+          <Text style={styles.groupLabel}>Type</Text>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+            {options.types.map(type => (
+              <Chip
+                key={type}
+                label={type}
+                selected={query.types.includes(type)}
+                onPress={() => update({ types: toggleValue(query.types, type) })}
+              />
+            ))}
+          </ScrollView>
+
+          <Text style={styles.groupLabel}>Relationship</Text>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+            {options.relationships.map(relationship => (
+              <Chip
+                key={relationship}
+                label={relationship}
+                selected={query.relationships.includes(relationship)}
+                onPress={() => update({ relationships: toggleValue(query.relationships, relationship) })}
+              />
+            ))}
+          </ScrollView>
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    paddingHorizontal: 16,
+    paddingTop: 12,
+    gap: 8,
+  },
+  searchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  searchInput: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: '#ccc',
+    borderRadius: 5,
+    padding: 10,
+  },
+  toggle: {
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    borderRadius: 5,
+    backgroundColor: '#f0f0f0',
+  },
+  toggleText: {
+    color: '#333',
+    fontWeight: '600',
+  },
+  panel: {
+    gap: 6,
+  },
+  groupLabel: {
+    fontSize: 12,
+    color: '#999',
+    textTransform: 'uppercase',
+  },
+  chipRow: {
+    gap: 8,
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  chipIdle: {
+    borderColor: '#ccc',
+    backgroundColor: '#fff',
+  },
+  chipSelected: {
+    borderColor: '#F8AB16',
+    backgroundColor: '#F8AB16',
+  },
+  chipText: {
+    color: '#666',
+    fontWeight: '500',
+  },
+  chipTextSelected: {
+    color: '#fff',
+  },
+});
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import {
   View,
   Text,
@@ -9,85 +9,145 @@ import {
   Image,
   Platform,
 } from 'react-native';
-import { UserDevice, updateDeviceStatus, fetchUserDevices, tokens } from '../services/api';
-
-const statusImages = {
-  ACTIVE_DOWN: require('../../assets/images/console_boucner_active_down.png'),
-  ACTIVE_UP: require('../../assets/images/console_bouncer_active_up.png'),
-  PASSIVE: require('../../assets/images/console_bouncer_passive.png'),
-};
+import { DeviceCommandAction, UserDevice, acknowledgeAlarm, canOperate } from '../services/api';
+import { getPendingCommand, getPendingCommands, isCommandInFlight, subscribeOutbox } from '../services/outbox';
+import { confirmSensitiveAction } from '../services/appLock';
+import {
+  ACTION_LABELS,
+  DeviceAction,
+  getAllowedActions,
+  getStatusImage,
+  getStatusLabel,
+} from '../utils/deviceStatus';
+import { DeviceQuery, EMPTY_DEVICE_QUERY, applyDeviceQuery, collectFilterOptions, distanceTo } from '../utils/deviceQuery';
+import { Coordinates, formatDistance } from '../utils/location';
+import { getCurrentPosition } from '../services/position';
+import { bulkTargets } from '../utils/deviceGroups';
+import { DeviceFilters } from './DeviceFilters';
+import { BatchProgress } from './BatchProgress';
+import { setStatusMessage } from '../store/appStore';
+import { loadDevices, toggleFavorite } from '../store/actions';
+import { sendBarrierCommand } from '../store/commands';
+import { startBatch } from '../store/batch';
+import { useDevices, useDevicesStatus, useSession } from '../store/hooks';
+import { createLogger } from '../services/logger';
 
-const getStatusImage = (status: string) => {
-  switch (status) {
-    case 'BLOCKED':
-      return statusImages.ACTIVE_DOWN;
-    case 'UNBLOCKED':
-      return statusImages.ACTIVE_UP;
-    default:
-      return statusImages.PASSIVE;
-  }
-};
+const log = createLogger('DeviceList');
 
 interface DeviceListProps {
-  devices: UserDevice[];
-  isLoading: boolean;
-  error: Error | null;
-  onRefresh: () => Promise<void>;
-  onStatusUpdate?: (message: string) => void;
-  isLoggedIn?: boolean; // Add this prop
+  onSelectDevice?: (deviceId: string) => void;
+  onAddDevice?: () => void;
+  onOpenAlerts?: () => void;
+  onOpenSettings?: () => void;
+  onOpenOrganization?: () => void;
+  onOpenMap?: () => void;
+  activeAlertCount?: number;
 }
 
-export const DeviceList = ({ devices, isLoading, error, onRefresh, onStatusUpdate, isLoggedIn }: DeviceListProps) => {
+export const DeviceList = ({
+  onSelectDevice,
+  onAddDevice,
+  onOpenAlerts,
+  onOpenSettings,
+  onOpenOrganization,
+  onOpenMap,
+  activeAlertCount = 0,
+}: DeviceListProps) => {
+  const devices = useDevices();
+  const { isLoading, error } = useDevicesStatus();
+  const session = useSession();
+  const isLoggedIn = Boolean(session.accessToken);
+  // Only worth naming the account once there is more than one to switch between
+  const accountLabel = session.accounts.length > 1
+    ? session.accounts.find(account => account.userId === session.userId)?.email
+    : undefined;
   const [loadingDevices, setLoadingDevices] = useState<{ [key: string]: boolean }>({});
+  const [query, setQuery] = useState<DeviceQuery>(EMPTY_DEVICE_QUERY);
+  // Phone position, only looked up once the user sorts by distance
+  const [origin, setOrigin] = useState<Coordinates | null>(null);
+  const visibleDevices = useMemo(() => applyDeviceQuery(devices, query, origin), [devices, query, origin]);
+  const filterOptions = useMemo(() => collectFilterOptions(devices), [devices]);
+  // Only here to re-render on outbox changes; cards look their command up with getPendingCommand
+  const [, setPendingCommands] = useState(getPendingCommands());
+  // Device ids picked for a bulk command; null outside of selection mode
+  const [selectedIds, setSelectedIds] = useState<string[] | null>(null);
+  const selectedDevices = useMemo(
+    () => devices.filter(item => selectedIds?.includes(item.device.id)),
+    [devices, selectedIds]
+  );
 
-  const pollDeviceStatus = async (deviceId: string, expectedStatus: string, nickname: string) => {
-    let attempts = 0;
-    const maxAttempts = 10; // Maximum 10 attempts
-    const pollInterval = 2000; // Poll every 2 second
+  useEffect(() => subscribeOutbox(setPendingCommands), []);
 
-    while (attempts < maxAttempts) {
-      try {
-        const updatedDevices = await fetchUserDevices(tokens?.accessToken || '');
-        const device = updatedDevices.find(d => d.device.id === deviceId);
-        
-        if (device?.device.status === expectedStatus) {
-          onStatusUpdate?.(`${nickname} has been ${expectedStatus.toLowerCase()}`);
-          setLoadingDevices(prev => ({ ...prev, [deviceId]: false }));
-          await onRefresh();
-          return true;
+  useEffect(() => {
+    if (query.sort !== 'distance') {
+      return;
+    }
+    let isCurrent = true;
+    getCurrentPosition()
+      // A custom provider may still throw; sorting then falls back as if no fix was available
+      .catch(error => {
+        log.error('Failed to get the current position:', error);
+        return null;
+      })
+      .then(position => {
+        if (!isCurrent) {
+          return;
         }
-      } catch (error) {
-        console.error('Error polling device status:', error);
-      }
+        setOrigin(position);
+        if (!position) {
+          setStatusMessage('Allow location access to sort by the nearest barrier');
+        }
+      });
+    return () => {
+      isCurrent = false;
+    };
+  }, [query.sort]);
+
+  const toggleSelected = (deviceId: string) => {
+    setSelectedIds(prev => prev && (prev.includes(deviceId) ? prev.filter(id => id !== deviceId) : [...prev, deviceId]));
+  };
 
-      attempts++;
-      await new Promise(resolve => setTimeout(resolve, pollInterval));
+  // In selection mode a tap picks the card instead of opening it
+  const handleCardPress = (item: UserDevice) => {
+    if (selectedIds === null) {
+      onSelectDevice?.(item.device.id);
+    } else if (canOperate(item)) {
+      toggleSelected(item.device.id);
     }
+  };
 
-    onStatusUpdate?.(`Timeout waiting for ${nickname}'s status update`);
-    setLoadingDevices(prev => ({ ...prev, [deviceId]: false }));
-    return false;
+  const handleBulk = (action: DeviceCommandAction) => {
+    startBatch(selectedDevices.map(item => item.device.id), action);
+    setSelectedIds(null);
   };
 
-  const handleUpdateStatus = async (deviceId: string, currentStatus: string, nickname: string) => {
+  const handleAcknowledge = async (deviceId: string, nickname: string) => {
+    if (!(await confirmSensitiveAction({ source: 'alarm', action: 'acknowledge', target: nickname }))) {
+      setStatusMessage(`Alarm on ${nickname} was not acknowledged, the app lock was not confirmed`);
+      return;
+    }
+    setLoadingDevices(prev => ({ ...prev, [deviceId]: true }));
     try {
-      setLoadingDevices(prev => ({ ...prev, [deviceId]: true }));
-      const expectedStatus = currentStatus === 'BLOCKED' ? 'UNBLOCKED' : 'BLOCKED';
-      
-      await updateDeviceStatus(deviceId, currentStatus, {
-        email: '',
-        password: '',
-      });
-
-      // Start polling for status change
-      pollDeviceStatus(deviceId, expectedStatus, nickname);
+      await acknowledgeAlarm(deviceId);
+      setStatusMessage(`Alarm on ${nickname} acknowledged`);
+      await loadDevices();
     } catch (err) {
-      console.error('Error updating device status:', err);
-      onStatusUpdate?.(`Failed to update ${nickname}'s status`);
+      log.error('Error acknowledging alarm:', err);
+      setStatusMessage(`Failed to acknowledge ${nickname}'s alarm`);
+    } finally {
       setLoadingDevices(prev => ({ ...prev, [deviceId]: false }));
     }
   };
 
+  const handleAction = (deviceId: string, action: DeviceAction, nickname: string) => {
+    if (action === 'acknowledge') {
+      handleAcknowledge(deviceId, nickname);
+      return;
+    }
+
+    sendBarrierCommand(deviceId, action);
+  };
+
   if (!isLoggedIn) {
     return (
       <View style={styles.centerContainer}>
@@ -112,55 +172,193 @@ export const DeviceList = ({ devices, isLoading, error, onRefresh, onStatusUpdat
     );
   }
 
-  const renderDevice = ({ item }: { item: UserDevice }) => (
-    <View style={styles.deviceCard}>
-      <View style={styles.deviceHeader}>
-        <Text style={styles.deviceName}>
-          {item.device.nickName || item.device.serialNo}
-        </Text>
-        <Image
-          source={getStatusImage(item.device.status)}
-          style={styles.statusImage}
-        />
-      </View>
-      <Text style={styles.deviceSerial}>S/N: {item.device.serialNo}</Text>
-      <Text style={styles.deviceType}>{item.device.type}</Text>
+  const renderDevice = ({ item }: { item: UserDevice }) => {
+    const { status } = item.device;
+    const nickname = item.device.nickName || item.device.serialNo;
+    const pending = getPendingCommand(item.device.id);
+    const isSending = Boolean(pending && isCommandInFlight(pending));
+    // While a command is queued the only useful action is the one that cancels it; once it is being
+    // sent there is nothing left to cancel
+    const actions: DeviceAction[] = isSending
+      ? []
+      : pending
+        ? [pending.action === 'block' ? 'unblock' : 'block']
+        : getAllowedActions(status);
+    const isBusy = Boolean(loadingDevices[item.device.id]);
+    const isSelectable = selectedIds !== null && canOperate(item);
+    const isSelected = Boolean(selectedIds?.includes(item.device.id));
+    const distance = origin && query.sort === 'distance' ? distanceTo(item, origin) : null;
 
-      {/* Button to block the device */}
+    return (
       <TouchableOpacity
-        style={[
-          styles.updateButton,
-          loadingDevices[item.device.id] ? styles.buttonDisabled : styles.buttonActive
-        ]}
-        onPress={() => handleUpdateStatus(
-          item.device.id, 
-          item.device.status, 
-          item.device.nickName || item.device.serialNo
-        )}
-        disabled={loadingDevices[item.device.id]}
+        style={[styles.deviceCard, isSelected && styles.deviceCardSelected]}
+        activeOpacity={0.8}
+        onPress={() => handleCardPress(item)}
       >
-        {loadingDevices[item.device.id] ? (
-          <ActivityIndicator size="small" color="#fff" />
-        ) : (
-          <Text style={styles.updateButtonText}>
-            {item.device.status === 'BLOCKED' ? 'Unblock Device' : 'Block Device'}
-          </Text>
-        )}
+        <View style={styles.deviceHeader}>
+          <View style={styles.deviceTitle}>
+            <View style={styles.nameRow}>
+              {isSelectable && (
+                <Text style={[styles.checkbox, isSelected && styles.checkboxSelected]}>
+                  {isSelected ? '☑' : '☐'}
+                </Text>
+              )}
+              <TouchableOpacity
+                onPress={() => toggleFavorite(item.device.id)}
+                hitSlop={8}
+                accessibilityLabel={item.isFavorite ? 'Remove from favorites' : 'Add to favorites'}
+              >
+                <Text style={[styles.favorite, item.isFavorite && styles.favoriteActive]}>
+                  {item.isFavorite ? '★' : '☆'}
+                </Text>
+              </TouchableOpacity>
+              <Text style={styles.deviceName}>
+                {nickname}
+              </Text>
+            </View>
+            {pending && (
+              <Text style={styles.pendingBadge}>
+                {isSending ? 'Sending' : 'Pending'} {pending.action}
+              </Text>
+            )}
+          </View>
+          <Image
+            source={getStatusImage(status)}
+            style={styles.statusImage}
+          />
+        </View>
+        <Text style={styles.deviceSerial}>S/N: {item.device.serialNo}</Text>
+        <Text style={styles.deviceType}>{item.device.type}</Text>
+        {distance !== null && <Text style={styles.deviceType}>{formatDistance(distance)} away</Text>}
+
+        <Text
+          style={[
+            styles.statusLabel,
+            (status.kind === 'unknown' || status.kind === 'error' || status.kind === 'alarm') && styles.statusWarning,
+          ]}
+        >
+          {getStatusLabel(status)}
+        </Text>
+
+        {!canOperate(item) ? (
+          <Text style={styles.readOnlyText}>View only access</Text>
+        ) : selectedIds !== null ? null : isSending ? (
+          <View style={[styles.updateButton, styles.buttonDisabled]}>
+            <ActivityIndicator size="small" color="#fff" />
+          </View>
+        ) : actions.length === 0 ? (
+          <View style={[styles.updateButton, styles.buttonDisabled]}>
+            <Text style={styles.updateButtonText}>Unavailable while {getStatusLabel(status).toLowerCase()}</Text>
+          </View>
+        ) : actions.map(action => (
+          <TouchableOpacity
+            key={action}
+            style={[
+              styles.updateButton,
+              isBusy ? styles.buttonDisabled : styles.buttonActive
+            ]}
+            onPress={() => handleAction(item.device.id, action, nickname)}
+            disabled={isBusy}
+          >
+            {isBusy ? (
+              <ActivityIndicator size="small" color="#fff" />
+            ) : (
+              <Text style={styles.updateButtonText}>
+                {ACTION_LABELS[action]}
+              </Text>
+            )}
+          </TouchableOpacity>
+        ))}
       </TouchableOpacity>
-    </View>
-  );
+    );
+  };
 
   return (
     <View style={styles.mainContainer}>
-      <Text style={styles.title}>Connected Devices</Text>
+      <View style={styles.titleRow}>
+        <View>
+          <Text style={styles.title}>Connected Devices</Text>
+          {accountLabel ? <Text style={styles.accountText}>{accountLabel}</Text> : null}
+        </View>
+        <View style={styles.headerActions}>
+          {onOpenAlerts && (
+            <TouchableOpacity onPress={onOpenAlerts} style={styles.alertsButton}>
+              <Text style={styles.addDeviceText}>Alerts</Text>
+              {activeAlertCount > 0 && (
+                <View style={styles.alertBadge}>
+                  <Text style={styles.alertBadgeText}>{activeAlertCount}</Text>
+                </View>
+              )}
+            </TouchableOpacity>
+          )}
+          {onOpenMap && (
+            <TouchableOpacity onPress={onOpenMap}>
+              <Text style={styles.addDeviceText}>Map</Text>
+            </TouchableOpacity>
+          )}
+          {onOpenOrganization && (
+            <TouchableOpacity onPress={onOpenOrganization}>
+              <Text style={styles.addDeviceText}>Fleet</Text>
+            </TouchableOpacity>
+          )}
+          {onAddDevice && (
+            <TouchableOpacity onPress={onAddDevice}>
+              <Text style={styles.addDeviceText}>+ Add</Text>
+            </TouchableOpacity>
+          )}
+          {onOpenSettings && (
+            <TouchableOpacity onPress={onOpenSettings}>
+              <Text style={styles.addDeviceText}>Settings</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      </View>
+      <DeviceFilters query={query} onChange={setQuery} options={filterOptions} />
+      {selectedIds === null ? (
+        devices.some(canOperate) && (
+          <View style={styles.selectionBar}>
+            <TouchableOpacity onPress={() => setSelectedIds([])}>
+              <Text style={styles.addDeviceText}>Select devices</Text>
+            </TouchableOpacity>
+          </View>
+        )
+      ) : (
+        <View style={styles.selectionBar}>
+          <Text style={styles.selectionText}>{selectedIds.length} selected</Text>
+          <TouchableOpacity
+            onPress={() => setSelectedIds(visibleDevices.filter(canOperate).map(item => item.device.id))}
+          >
+            <Text style={styles.addDeviceText}>All</Text>
+          </TouchableOpacity>
+          {(['block', 'unblock'] as DeviceCommandAction[]).map(action => {
+            const count = bulkTargets(selectedDevices, action).length;
+            return (
+              <TouchableOpacity key={action} onPress={() => handleBulk(action)} disabled={!count}>
+                <Text style={[styles.addDeviceText, !count && styles.actionDisabled]}>
+                  {action === 'block' ? 'Block' : 'Unblock'} {count}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+          <TouchableOpacity onPress={() => setSelectedIds(null)}>
+            <Text style={styles.addDeviceText}>Done</Text>
+          </TouchableOpacity>
+        </View>
+      )}
       <FlatList
-        data={devices}
+        data={visibleDevices}
         renderItem={renderDevice}
         keyExtractor={item => item.id}
         style={styles.container}
         contentContainerStyle={styles.listContent}
         refreshing={isLoading}
-        onRefresh={onRefresh}
+        onRefresh={loadDevices}
+        ListHeaderComponent={BatchProgress}
+        ListEmptyComponent={
+          <Text style={styles.emptyText}>
+            {devices.length ? 'No devices match your filters' : 'No devices connected yet'}
+          </Text>
+        }
       />
     </View>
   );
@@ -170,16 +368,73 @@ const styles = StyleSheet.create({
   mainContainer: {
     flex: 1,
   },
-  title: {
-    fontSize: 18,
-    fontWeight: '600',
-    color: '#333',
+  titleRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
     paddingVertical: 16,
     backgroundColor: '#fff',
     borderBottomColor: "#33333377",
     borderBottomWidth: 1,
     marginHorizontal: 16,
   },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+  },
+  accountText: {
+    fontSize: 13,
+    color: '#666',
+  },
+  selectionBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'flex-end',
+    gap: 16,
+    paddingHorizontal: 16,
+    paddingTop: 8,
+  },
+  selectionText: {
+    flex: 1,
+    color: '#666',
+  },
+  actionDisabled: {
+    color: '#ccc',
+  },
+  checkbox: {
+    fontSize: 24,
+    color: '#ccc',
+  },
+  checkboxSelected: {
+    color: '#F8AB16',
+  },
+  headerActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 16,
+  },
+  addDeviceText: {
+    color: '#F8AB16',
+    fontWeight: '600',
+  },
+  alertsButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  alertBadge: {
+    minWidth: 18,
+    paddingHorizontal: 5,
+    borderRadius: 9,
+    backgroundColor: '#c62828',
+    alignItems: 'center',
+  },
+  alertBadgeText: {
+    color: 'white',
+    fontSize: 12,
+    fontWeight: '700',
+  },
   container: {
     flex: 1,
   },
@@ -212,15 +467,53 @@ const styles = StyleSheet.create({
     shadowRadius: 4,
     elevation: 3,
   },
+  deviceCardSelected: {
+    borderWidth: 2,
+    borderColor: '#F8AB16',
+  },
   deviceHeader: {
     flexDirection: 'row',
     justifyContent: 'space-between',
     alignItems: 'center',
     marginBottom: 8,
   },
+  deviceTitle: {
+    flexShrink: 1,
+    alignItems: 'flex-start',
+    gap: 4,
+  },
+  nameRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  favorite: {
+    fontSize: 28,
+    color: '#ccc',
+  },
+  favoriteActive: {
+    color: '#F8AB16',
+  },
   deviceName: {
     fontSize: 32,
     fontWeight: '600',
+    flexShrink: 1,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#666',
+    textAlign: 'center',
+    padding: 20,
+  },
+  pendingBadge: {
+    backgroundColor: '#fff4e0',
+    color: '#b37400',
+    fontSize: 12,
+    fontWeight: '600',
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 10,
+    overflow: 'hidden',
   },
   deviceSerial: {
     fontSize: 14,
@@ -231,6 +524,21 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: '#666',
   },
+  statusLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+    marginTop: 4,
+  },
+  statusWarning: {
+    color: '#c62828',
+  },
+  readOnlyText: {
+    marginTop: 8,
+    fontSize: 14,
+    color: '#999',
+    fontStyle: 'italic',
+  },
   statusImage: {
     width: 64,
     height: 64,
@@ -0,0 +1,100 @@
+import React, { useMemo } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import MapView, { Marker } from 'react-native-maps';
+import { UserDevice } from '../services/api';
+import { getStatusLabel } from '../utils/deviceStatus';
+import { Coordinates, STATUS_COLORS, getCoordinates, parseLocation, regionForCoordinates } from '../utils/location';
+import { useDevices } from '../store/hooks';
+
+interface DeviceMapProps {
+  onBack: () => void;
+  onSelectDevice?: (deviceId: string) => void;
+}
+
+interface PlacedDevice {
+  item: UserDevice;
+  coordinates: Coordinates;
+}
+
+export const DeviceMap = ({ onBack, onSelectDevice }: DeviceMapProps) => {
+  const devices = useDevices();
+  const placed = useMemo(
+    () => devices.flatMap((item): PlacedDevice[] => {
+      const coordinates = getCoordinates(parseLocation(item.device.location));
+      return coordinates ? [{ item, coordinates }] : [];
+    }),
+    [devices]
+  );
+  const unplacedCount = devices.length - placed.length;
+  // Only recomputed when devices gain or lose coordinates, so status updates do not move the map
+  const initialRegion = useMemo(() => regionForCoordinates(placed.map(entry => entry.coordinates)), [placed.length]);
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={onBack} style={styles.backButton}>
+          <Text style={styles.backText}>‹ Devices</Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>Map</Text>
+        {unplacedCount > 0 && (
+          <Text style={styles.subtitle}>
+            {unplacedCount} device(s) have no coordinates and are not shown
+          </Text>
+        )}
+      </View>
+
+      {initialRegion ? (
+        <MapView style={styles.map} initialRegion={initialRegion}>
+          {placed.map(({ item, coordinates }) => (
+            <Marker
+              key={item.id}
+              coordinate={coordinates}
+              pinColor={STATUS_COLORS[item.device.status.kind]}
+              title={item.device.nickName || item.device.serialNo}
+              description={getStatusLabel(item.device.status)}
+              onPress={() => onSelectDevice?.(item.device.id)}
+            />
+          ))}
+        </MapView>
+      ) : (
+        <Text style={styles.emptyText}>None of your devices has a location with coordinates yet</Text>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    padding: 16,
+    gap: 4,
+  },
+  backButton: {
+    paddingVertical: 4,
+  },
+  backText: {
+    fontSize: 16,
+    color: '#F8AB16',
+    fontWeight: '600',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#333',
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#666',
+  },
+  map: {
+    flex: 1,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#666',
+    textAlign: 'center',
+    padding: 20,
+  },
+});
@@ -0,0 +1,55 @@
+import React, { ReactNode } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { UserDevice } from '../services/api';
+import { useDevice, useDevicesStatus } from '../store/hooks';
+
+interface DeviceRouteProps {
+  deviceId: string;
+  onBack: () => void;
+  children: (userDevice: UserDevice) => ReactNode;
+}
+
+// Device screens can be opened from a link before the list has loaded, or for a device that is gone
+export const DeviceRoute = ({ deviceId, onBack, children }: DeviceRouteProps) => {
+  const userDevice = useDevice(deviceId);
+  const { isLoading, hasLoaded, error } = useDevicesStatus();
+
+  if (userDevice) {
+    return <>{children(userDevice)}</>;
+  }
+
+  if (isLoading || (!hasLoaded && !error)) {
+    return <ActivityIndicator size="large" color="#F8AB16" style={styles.loader} />;
+  }
+
+  return (
+    <View style={styles.notFound}>
+      <Text style={styles.notFoundText}>This barrier is not linked to your account</Text>
+      <TouchableOpacity onPress={onBack}>
+        <Text style={styles.linkText}>Back to devices</Text>
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  loader: {
+    marginTop: 40,
+  },
+  notFound: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 12,
+    padding: 16,
+  },
+  notFoundText: {
+    fontSize: 16,
+    color: '#666',
+    textAlign: 'center',
+  },
+  linkText: {
+    color: '#F8AB16',
+    fontWeight: '600',
+  },
+});
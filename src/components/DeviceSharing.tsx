@@ -0,0 +1,398 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  TouchableOpacity,
+  ActivityIndicator,
+  FlatList,
+  Alert,
+} from 'react-native';
+import { AccessPermission, UserDevice } from '../services/api';
+import { DeviceAccess, fetchDeviceAccess, inviteGuest, revokeAccess, updateGuestAccess } from '../services/sharing';
+import { isValidEmail } from '../utils/formValidation';
+import { createLogger } from '../services/logger';
+
+const log = createLogger('DeviceSharing');
+
+interface DeviceSharingProps {
+  userDevice: UserDevice;
+  onBack: () => void;
+}
+
+const EXPIRY_OPTIONS: { label: string; days: number | null }[] = [
+  { label: 'No expiry', days: null },
+  { label: '1 day', days: 1 },
+  { label: '7 days', days: 7 },
+  { label: '30 days', days: 30 },
+];
+
+const PERMISSION_LABELS: Record<AccessPermission, string> = {
+  VIEW: 'View only',
+  OPERATE: 'View & operate',
+};
+
+const expiryFromDays = (days: number | null) =>
+  days === null ? null : new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString();
+
+export const DeviceSharing = ({ userDevice, onBack }: DeviceSharingProps) => {
+  const deviceId = userDevice.device.id;
+  const [entries, setEntries] = useState<DeviceAccess[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string>('');
+  const [busyIds, setBusyIds] = useState<{ [key: string]: boolean }>({});
+
+  const [email, setEmail] = useState('');
+  const [permission, setPermission] = useState<AccessPermission>('VIEW');
+  const [expiryDays, setExpiryDays] = useState<number | null>(null);
+  const [isInviting, setIsInviting] = useState(false);
+
+  const loadEntries = async () => {
+    setIsLoading(true);
+    setError('');
+    try {
+      setEntries(await fetchDeviceAccess(deviceId));
+    } catch (err: any) {
+      log.error('Failed to load device access:', err);
+      setError('Failed to load people with access');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadEntries();
+  }, [deviceId]);
+
+  const setBusy = (id: string, busy: boolean) => setBusyIds(prev => ({ ...prev, [id]: busy }));
+
+  const handleInvite = async () => {
+    const trimmed = email.trim();
+    if (!isValidEmail(trimmed)) {
+      setError('Please enter a valid email address');
+      return;
+    }
+    if (entries.some(entry => entry.email.toLowerCase() === trimmed.toLowerCase())) {
+      setError(`${trimmed} already has access`);
+      return;
+    }
+
+    setIsInviting(true);
+    setError('');
+    try {
+      const created = await inviteGuest(deviceId, {
+        email: trimmed,
+        permission,
+        expiresAt: expiryFromDays(expiryDays),
+      });
+      setEntries(prev => [...prev, created]);
+      setEmail('');
+    } catch (err: any) {
+      log.error('Failed to invite guest:', err);
+      setError(err?.message || 'Failed to send the invitation');
+    } finally {
+      setIsInviting(false);
+    }
+  };
+
+  const handlePermissionChange = async (entry: DeviceAccess, next: AccessPermission) => {
+    if (entry.permission === next) {
+      return;
+    }
+    setBusy(entry.id, true);
+    try {
+      const updated = await updateGuestAccess(deviceId, entry.id, { permission: next, expiresAt: entry.expiresAt });
+      setEntries(prev => prev.map(item => (item.id === entry.id ? updated : item)));
+    } catch (err) {
+      log.error('Failed to update guest access:', err);
+      setError(`Failed to update access for ${entry.email}`);
+    } finally {
+      setBusy(entry.id, false);
+    }
+  };
+
+  const handleRevoke = (entry: DeviceAccess) => {
+    Alert.alert(
+      'Revoke access',
+      `${entry.email} will no longer see or operate this barrier.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Revoke',
+          style: 'destructive',
+          onPress: async () => {
+            setBusy(entry.id, true);
+            try {
+              await revokeAccess(deviceId, entry.id);
+              setEntries(prev => prev.filter(item => item.id !== entry.id));
+            } catch (err) {
+              log.error('Failed to revoke access:', err);
+              setError(`Failed to revoke access for ${entry.email}`);
+              setBusy(entry.id, false);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const renderEntry = ({ item }: { item: DeviceAccess }) => {
+    const isOwnerEntry = item.relationshipType === 'OWNER';
+
+    return (
+      <View style={styles.entryCard}>
+        <View style={styles.entryHeader}>
+          <Text style={styles.entryEmail}>{item.email}</Text>
+          <Text style={styles.entryRole}>
+            {isOwnerEntry ? 'Owner' : item.status === 'PENDING' ? 'Invited' : 'Guest'}
+          </Text>
+        </View>
+        {!isOwnerEntry && (
+          <>
+            <Text style={styles.entryMeta}>
+              {item.expiresAt ? `Expires ${new Date(item.expiresAt).toLocaleDateString()}` : 'No expiry'}
+            </Text>
+            <View style={styles.optionRow}>
+              {(Object.keys(PERMISSION_LABELS) as AccessPermission[]).map(option => (
+                <TouchableOpacity
+                  key={option}
+                  style={[styles.option, item.permission === option ? styles.optionSelected : styles.optionIdle]}
+                  onPress={() => handlePermissionChange(item, option)}
+                  disabled={busyIds[item.id]}
+                >
+                  <Text style={[styles.optionText, item.permission === option && styles.optionTextSelected]}>
+                    {PERMISSION_LABELS[option]}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+              <TouchableOpacity
+                style={styles.revokeButton}
+                onPress={() => handleRevoke(item)}
+                disabled={busyIds[item.id]}
+              >
+                {busyIds[item.id] ? (
+                  <ActivityIndicator size="small" color="#c62828" />
+                ) : (
+                  <Text style={styles.revokeText}>Revoke</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          </>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <TouchableOpacity onPress={onBack} style={styles.backButton}>
+        <Text style={styles.backText}>‹ {userDevice.device.nickName || userDevice.device.serialNo}</Text>
+      </TouchableOpacity>
+      <Text style={styles.title}>People with access</Text>
+
+      {error ? <Text style={styles.errorText}>{error}</Text> : null}
+
+      <View style={styles.inviteCard}>
+        <Text style={styles.sectionLabel}>Invite a guest</Text>
+        <TextInput
+          style={styles.input}
+          placeholder="Guest email"
+          value={email}
+          onChangeText={setEmail}
+          autoCapitalize="none"
+          keyboardType="email-address"
+        />
+        <View style={styles.optionRow}>
+          {(Object.keys(PERMISSION_LABELS) as AccessPermission[]).map(option => (
+            <TouchableOpacity
+              key={option}
+              style={[styles.option, permission === option ? styles.optionSelected : styles.optionIdle]}
+              onPress={() => setPermission(option)}
+            >
+              <Text style={[styles.optionText, permission === option && styles.optionTextSelected]}>
+                {PERMISSION_LABELS[option]}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+        <View style={styles.optionRow}>
+          {EXPIRY_OPTIONS.map(option => (
+            <TouchableOpacity
+              key={option.label}
+              style={[styles.option, expiryDays === option.days ? styles.optionSelected : styles.optionIdle]}
+              onPress={() => setExpiryDays(option.days)}
+            >
+              <Text style={[styles.optionText, expiryDays === option.days && styles.optionTextSelected]}>
+                {option.label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+        <TouchableOpacity
+          style={[styles.button, isInviting ? styles.buttonDisabled : styles.buttonActive]}
+          onPress={handleInvite}
+          disabled={isInviting}
+        >
+          {isInviting ? (
+            <ActivityIndicator size="small" color="#fff" />
+          ) : (
+            <Text style={styles.buttonText}>Send invitation</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+
+      {isLoading ? (
+        <ActivityIndicator size="large" color="#F8AB16" style={styles.loader} />
+      ) : (
+        <FlatList
+          data={entries}
+          renderItem={renderEntry}
+          keyExtractor={item => item.id}
+          contentContainerStyle={styles.listContent}
+          refreshing={isLoading}
+          onRefresh={loadEntries}
+        />
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    padding: 16,
+    gap: 12,
+  },
+  backButton: {
+    paddingVertical: 4,
+  },
+  backText: {
+    fontSize: 16,
+    color: '#F8AB16',
+    fontWeight: '600',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#333',
+  },
+  errorText: {
+    color: '#c62828',
+    backgroundColor: '#ffebee',
+    padding: 10,
+    borderRadius: 5,
+  },
+  inviteCard: {
+    backgroundColor: 'white',
+    borderRadius: 8,
+    padding: 16,
+    gap: 10,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  sectionLabel: {
+    fontSize: 12,
+    color: '#999',
+    textTransform: 'uppercase',
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ccc',
+    borderRadius: 5,
+    padding: 10,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    gap: 8,
+  },
+  option: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  optionIdle: {
+    borderColor: '#ccc',
+    backgroundColor: '#fff',
+  },
+  optionSelected: {
+    borderColor: '#F8AB16',
+    backgroundColor: '#F8AB16',
+  },
+  optionText: {
+    color: '#666',
+    fontWeight: '500',
+  },
+  optionTextSelected: {
+    color: '#fff',
+  },
+  button: {
+    height: 45,
+    justifyContent: 'center',
+    alignItems: 'center',
+    borderRadius: 5,
+  },
+  buttonActive: {
+    backgroundColor: '#F8AB16',
+  },
+  buttonDisabled: {
+    backgroundColor: '#ccc',
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  loader: {
+    marginTop: 20,
+  },
+  listContent: {
+    gap: 12,
+    paddingBottom: 16,
+  },
+  entryCard: {
+    backgroundColor: 'white',
+    borderRadius: 8,
+    padding: 16,
+    gap: 8,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  entryHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  entryEmail: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    flexShrink: 1,
+  },
+  entryRole: {
+    fontSize: 12,
+    color: '#666',
+  },
+  entryMeta: {
+    fontSize: 14,
+    color: '#666',
+  },
+  revokeButton: {
+    marginLeft: 'auto',
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+  },
+  revokeText: {
+    color: '#c62828',
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,180 @@
+import React, { useMemo, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator, ScrollView, Platform } from 'react-native';
+import { collectDiagnosticsInfo, exportDiagnostics } from '../services/diagnostics';
+import { clearLog, createLogger, formatLogEntry, getLogEntries } from '../services/logger';
+import { useDevices, useSession } from '../store/hooks';
+
+const log = createLogger('Diagnostics');
+
+// Entries shown on screen; the exported file carries the whole buffer
+const PREVIEW_ENTRIES = 50;
+
+interface DiagnosticsProps {
+  onBack: () => void;
+}
+
+export const Diagnostics = ({ onBack }: DiagnosticsProps) => {
+  const { userId } = useSession();
+  const devices = useDevices();
+  const info = useMemo(() => collectDiagnosticsInfo(userId), [userId]);
+  const [entries, setEntries] = useState(getLogEntries());
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setError('');
+    try {
+      await exportDiagnostics(userId, devices);
+    } catch (err: any) {
+      log.error('Failed to export diagnostics:', err);
+      setError(err?.message || 'Failed to export diagnostics');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleClear = () => {
+    clearLog();
+    setEntries(getLogEntries());
+  };
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <TouchableOpacity onPress={onBack} style={styles.backButton}>
+        <Text style={styles.backText}>‹ Settings</Text>
+      </TouchableOpacity>
+      <Text style={styles.title}>Send diagnostics</Text>
+      <Text style={styles.hint}>
+        Attach this file to your support ticket. Tokens, passwords and email addresses are removed, and device
+        nicknames and locations are left out.
+      </Text>
+
+      {error ? <Text style={styles.errorText}>{error}</Text> : null}
+
+      <View style={styles.section}>
+        <Text style={styles.label}>Included</Text>
+        <Text style={styles.value}>App {info.appVersion} (build {info.buildVersion})</Text>
+        <Text style={styles.value}>{info.phone}, {info.os}</Text>
+        <Text style={styles.value}>{devices.length} device(s), {entries.length} log entries</Text>
+        <TouchableOpacity
+          style={[styles.button, isExporting ? styles.buttonDisabled : styles.buttonActive]}
+          onPress={handleExport}
+          disabled={isExporting}
+        >
+          {isExporting ? (
+            <ActivityIndicator size="small" color="#fff" />
+          ) : (
+            <Text style={styles.buttonText}>Send diagnostics</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.section}>
+        <View style={styles.logHeader}>
+          <Text style={styles.label}>Recent log</Text>
+          <TouchableOpacity onPress={handleClear}>
+            <Text style={styles.clearText}>Clear</Text>
+          </TouchableOpacity>
+        </View>
+        {entries.length ? (
+          entries.slice(-PREVIEW_ENTRIES).reverse().map((entry, index) => (
+            <Text key={`${entry.time}-${index}`} style={[styles.logLine, entry.level === 'error' && styles.logError]}>
+              {formatLogEntry(entry)}
+            </Text>
+          ))
+        ) : (
+          <Text style={styles.hint}>Nothing logged yet</Text>
+        )}
+      </View>
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: 16,
+    gap: 12,
+  },
+  backButton: {
+    paddingVertical: 4,
+  },
+  backText: {
+    fontSize: 16,
+    color: '#F8AB16',
+    fontWeight: '600',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#333',
+  },
+  hint: {
+    fontSize: 14,
+    color: '#666',
+  },
+  errorText: {
+    padding: 10,
+    borderRadius: 5,
+    backgroundColor: '#ffebee',
+    color: '#c62828',
+    fontWeight: '500',
+  },
+  section: {
+    backgroundColor: 'white',
+    borderRadius: 8,
+    padding: 16,
+    gap: 10,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  label: {
+    fontSize: 12,
+    color: '#999',
+    textTransform: 'uppercase',
+  },
+  value: {
+    fontSize: 16,
+    color: '#333',
+  },
+  button: {
+    height: 45,
+    justifyContent: 'center',
+    alignItems: 'center',
+    borderRadius: 5,
+  },
+  buttonActive: {
+    backgroundColor: '#F8AB16',
+  },
+  buttonDisabled: {
+    backgroundColor: '#ccc',
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  logHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  clearText: {
+    color: '#F8AB16',
+    fontWeight: '600',
+  },
+  logLine: {
+    fontSize: 11,
+    color: '#333',
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+  },
+  logError: {
+    color: '#c62828',
+  },
+});
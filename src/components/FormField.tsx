@@ -0,0 +1,34 @@
+import React from 'react';
+import { View, Text, TextInput, TextInputProps, StyleSheet } from 'react-native';
+
+interface FormFieldProps extends TextInputProps {
+  error?: string;
+}
+
+// Text input with its validation message underneath
+export const FormField = ({ error, style, ...inputProps }: FormFieldProps) => (
+  <View style={styles.field}>
+    <TextInput style={[styles.input, error ? styles.inputInvalid : null, style]} {...inputProps} />
+    {error ? <Text style={styles.errorText}>{error}</Text> : null}
+  </View>
+);
+
+const styles = StyleSheet.create({
+  field: {
+    marginBottom: 10,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ccc',
+    borderRadius: 5,
+    padding: 10,
+  },
+  inputInvalid: {
+    borderColor: '#c62828',
+  },
+  errorText: {
+    color: '#c62828',
+    fontSize: 13,
+    marginTop: 4,
+  },
+});
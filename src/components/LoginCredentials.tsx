@@ -1,49 +1,75 @@
 import React, { useState } from 'react';
-import { View, Text, TextInput, Button, StyleSheet, ActivityIndicator, TouchableOpacity, Platform } from 'react-native';
-import { login as apiLogin, refreshTokens } from '../services/api';
+import { View, Text, StyleSheet, ActivityIndicator, TouchableOpacity, Platform, Switch } from 'react-native';
+import { login as apiLogin } from '../services/api';
+import { setDemoMode } from '../services/demoMode';
+import { DEMO_EMAIL, DEMO_PASSWORD } from '../services/mockBackend';
+import { useDemoMode } from '../store/hooks';
+import { ERROR_MESSAGES, getLoginErrorMessage } from '../utils/authErrors';
+import { FormErrors, LoginForm, hasErrors, validateEmailOnly, validateLogin } from '../utils/formValidation';
+import { FormField } from './FormField';
+import { createLogger } from '../services/logger';
+
+const log = createLogger('LoginCredentials');
 
 // Add onLoginSuccess prop type
 interface LoginCredentialsProps {
   onLoginSuccess?: (accessToken: string) => void;
   statusMessage?: string;
+  onRegister?: () => void;
+  onForgotPassword?: () => void;
+  // Registered accounts that never entered their emailed code finish here
+  onVerifyEmail?: (email: string) => void;
+  // Off when adding an account, the backend cannot change under a signed-in session
+  allowDemoMode?: boolean;
 }
 
-const ERROR_MESSAGES = {
-  INVALID_CREDENTIALS: 'Invalid email or password',
-  NETWORK_ERROR: 'Network connection error. Please check your internet connection',
-  SERVER_ERROR: 'Server error. Please try again later',
-  EMPTY_FIELDS: 'Please fill in all fields',
-  INVALID_EMAIL: 'Please enter a valid email address',
-  RATE_LIMIT: 'Too many attempts. Please try again later',
-  TOKEN_EXPIRED: 'Session expired. Please login again',
-  REFRESH_ERROR: 'Failed to refresh token. Please login again',
-  UNAUTHORIZED: 'Unauthorized access. Please login again',
-  ACCOUNT_LOCKED: 'Account locked. Please contact support',
-  CONNECTION_TIMEOUT: 'Connection timeout. Please try again',
-};
-
-export const LoginCredentials = ({ onLoginSuccess, statusMessage }: LoginCredentialsProps) => {
+export const LoginCredentials = ({
+  onLoginSuccess,
+  statusMessage,
+  onRegister,
+  onForgotPassword,
+  onVerifyEmail,
+  allowDemoMode = true,
+}: LoginCredentialsProps) => {
   const [email, setEmail] = useState<string>('');
   const [password, setPassword] = useState<string>('');
+  const [fieldErrors, setFieldErrors] = useState<FormErrors<LoginForm>>({});
   const [isLoading, setIsLoading] = useState(false);
   const [Status, setStatus] = useState<string>('');
-  const [tokens, setTokens] = useState<{ 
-    userId?: string;
-    accessToken?: string; 
-    refreshToken?: string;
-  }>({});
-  const [isRefreshing, setIsRefreshing] = useState(false);
   const [statusType, setStatusType] = useState<'success' | 'error' | 'info'>('info');
+  const isDemoMode = useDemoMode();
 
-  const handleLogin = async () => {
-    if (!email || !password) {
-      setStatus(ERROR_MESSAGES.EMPTY_FIELDS);
+  const handleDemoModeChange = async (enabled: boolean) => {
+    setStatus('');
+    setFieldErrors({});
+    if (enabled) {
+      setEmail(DEMO_EMAIL);
+      setPassword(DEMO_PASSWORD);
+    }
+    try {
+      await setDemoMode(enabled);
+    } catch (error) {
+      log.error('Failed to save demo mode:', error);
+    }
+  };
+
+  const handleVerifyEmail = () => {
+    const errors = validateEmailOnly(email);
+    setFieldErrors(errors);
+    if (hasErrors(errors)) {
+      setStatus('Enter the email address you registered with to verify it');
       setStatusType('error');
       return;
     }
+    setStatus('');
+    onVerifyEmail?.(email.trim());
+  };
 
-    if (!email.includes('@')) {
-      setStatus(ERROR_MESSAGES.INVALID_EMAIL);
+  const handleLogin = async () => {
+    const errors = validateLogin({ email, password });
+    setFieldErrors(errors);
+    if (hasErrors(errors)) {
+      setStatus(!email || !password ? ERROR_MESSAGES.EMPTY_FIELDS : ERROR_MESSAGES.INVALID_EMAIL);
       setStatusType('error');
       return;
     }
@@ -54,70 +80,20 @@ export const LoginCredentials = ({ onLoginSuccess, statusMessage }: LoginCredent
     
     try {
       const loginResponse = await apiLogin({
-        email,
+        email: email.trim(),
         password,
       });
-      setTokens({
-        userId: loginResponse.userId,
-        accessToken: loginResponse.accessToken
-      });
       setStatus('Login successful!');
       setStatusType('success');
       onLoginSuccess?.(loginResponse.accessToken);
-    } catch (error: any) {
-      let errorMessage = ERROR_MESSAGES.SERVER_ERROR;
-
-      if (error?.message?.includes('401')) {
-        errorMessage = ERROR_MESSAGES.INVALID_CREDENTIALS;
-      } else if (error?.message?.includes('429')) {
-        errorMessage = ERROR_MESSAGES.RATE_LIMIT;
-      } else if (error?.message?.includes('network')) {
-        errorMessage = ERROR_MESSAGES.NETWORK_ERROR;
-      } else if (error?.message?.includes('timeout')) {
-        errorMessage = ERROR_MESSAGES.CONNECTION_TIMEOUT;
-      } else if (error?.message?.includes('locked')) {
-        errorMessage = ERROR_MESSAGES.ACCOUNT_LOCKED;
-      }
-
-      setStatus(errorMessage);
+    } catch (error) {
+      setStatus(getLoginErrorMessage(error));
       setStatusType('error');
     } finally {
       setIsLoading(false);
     }
   };
 
-  const handleRefreshToken = async () => {
-    if (!tokens.accessToken) {
-      setStatus(ERROR_MESSAGES.UNAUTHORIZED);
-      setStatusType('error');
-      return;
-    }
-
-    setIsRefreshing(true);
-    setStatus('Refreshing token...');
-    setStatusType('info');
-    try {
-      const newTokens = await refreshTokens(tokens.accessToken);
-      setTokens(newTokens);
-      setStatus('Token refreshed successfully!');
-      setStatusType('success');
-      onLoginSuccess?.(newTokens.accessToken);
-    } catch (error: any) {
-      let errorMessage = ERROR_MESSAGES.REFRESH_ERROR;
-
-      if (error?.message?.includes('401')) {
-        errorMessage = ERROR_MESSAGES.TOKEN_EXPIRED;
-      } else if (error?.message?.includes('network')) {
-        errorMessage = ERROR_MESSAGES.NETWORK_ERROR;
-      }
-
-      setStatus(errorMessage);
-      setStatusType('error');
-    } finally {
-      setIsRefreshing(false);
-    }
-  };
-
   return (
     <View style={styles.container}>
       <Text style={[
@@ -126,28 +102,63 @@ export const LoginCredentials = ({ onLoginSuccess, statusMessage }: LoginCredent
         statusType === 'error' ? styles.statusError :
         styles.statusInfo
       ]}>
-        {statusMessage || Status || 'Please login to continue'}
+        {/* This attempt's outcome beats whatever the app said before the screen opened */}
+        {Status || statusMessage || 'Please login to continue'}
       </Text>
       
       <View style={styles.inputContainer}>
         <View style={styles.inputGroup}>
-          <TextInput
-            style={styles.input}
+          <FormField
             placeholder="Email"
             value={email}
             onChangeText={setEmail}
+            error={fieldErrors.email}
             autoCapitalize="none"
             keyboardType="email-address"
+            textContentType="emailAddress"
           />
-          <TextInput
-            style={styles.input}
+          <FormField
             placeholder="Password"
             value={password}
             onChangeText={setPassword}
+            error={fieldErrors.password}
             secureTextEntry
+            textContentType="password"
           />
         </View>
       </View>
+      {(onRegister || onForgotPassword || onVerifyEmail) && (
+        <View style={styles.linkRow}>
+          {onRegister && (
+            <TouchableOpacity onPress={onRegister}>
+              <Text style={styles.linkText}>Create account</Text>
+            </TouchableOpacity>
+          )}
+          {onForgotPassword && (
+            <TouchableOpacity onPress={onForgotPassword}>
+              <Text style={styles.linkText}>Forgot password?</Text>
+            </TouchableOpacity>
+          )}
+          {onVerifyEmail && (
+            <TouchableOpacity onPress={handleVerifyEmail}>
+              <Text style={styles.linkText}>Verify email</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      )}
+      {allowDemoMode && (
+        <View style={styles.demoRow}>
+          <View style={styles.demoLabel}>
+            <Text style={styles.demoTitle}>Demo mode</Text>
+            <Text style={styles.demoHint}>
+              {isDemoMode
+                ? `Simulated barriers, log in as ${DEMO_EMAIL} / ${DEMO_PASSWORD}`
+                : 'Try the app without an account or barrier'}
+            </Text>
+          </View>
+          <Switch value={isDemoMode} onValueChange={handleDemoModeChange} disabled={isLoading} />
+        </View>
+      )}
       <View style={styles.buttonContainer}>
         <View style={styles.buttonWrapper}>
           <TouchableOpacity
@@ -162,21 +173,6 @@ export const LoginCredentials = ({ onLoginSuccess, statusMessage }: LoginCredent
             )}
           </TouchableOpacity>
         </View>
-        {tokens.accessToken && (
-          <View style={styles.buttonWrapper}>
-            <TouchableOpacity
-              style={[styles.button, isRefreshing || isLoading ? styles.buttonDisabled : styles.buttonActive]}
-              onPress={handleRefreshToken}
-              disabled={isRefreshing || isLoading}
-            >
-              {isRefreshing ? (
-                <ActivityIndicator size="small" color="#fff" />
-              ) : (
-                <Text style={styles.buttonText}>Refresh Token</Text>
-              )}
-            </TouchableOpacity>
-          </View>
-        )}
       </View>
       {isLoading && (
         <View style={styles.loadingOverlay}>
@@ -212,13 +208,33 @@ const styles = StyleSheet.create({
   inputGroup: {
     flex: 1,
   },
-  input: {
-    borderWidth: 1,
-    borderColor: '#ccc',
-    borderRadius: 5,
-    padding: 10,
+  linkRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 10,
+  },
+  linkText: {
+    color: '#F8AB16',
+    fontWeight: '600',
+  },
+  demoRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
     marginBottom: 10,
   },
+  demoLabel: {
+    flex: 1,
+  },
+  demoTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+  },
+  demoHint: {
+    fontSize: 12,
+    color: '#666',
+  },
   refreshButtonContainer: {
     justifyContent: 'center',
     alignItems: 'center',
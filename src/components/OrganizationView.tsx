@@ -0,0 +1,217 @@
+import React, { useMemo, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, SectionList, Alert } from 'react-native';
+import { DeviceCommandAction, UserDevice } from '../services/api';
+import { DeviceGroup, DeviceGrouping, GROUPING_LABELS, bulkTargets, groupDevices } from '../utils/deviceGroups';
+import { getStatusLabel } from '../utils/deviceStatus';
+import { startBatch } from '../store/batch';
+import { BatchProgress } from './BatchProgress';
+import { useDevices, useSession } from '../store/hooks';
+
+interface OrganizationViewProps {
+  onBack: () => void;
+  onSelectDevice?: (deviceId: string) => void;
+}
+
+const BULK_ACTIONS: { action: DeviceCommandAction; label: string }[] = [
+  { action: 'block', label: 'Block' },
+  { action: 'unblock', label: 'Unblock' },
+];
+
+export const OrganizationView = ({ onBack, onSelectDevice }: OrganizationViewProps) => {
+  const devices = useDevices();
+  const { userId, accounts } = useSession();
+  const [grouping, setGrouping] = useState<DeviceGrouping>('site');
+  const groups = useMemo(() => groupDevices(devices, grouping), [devices, grouping]);
+
+  const activeAccount = accounts.find(account => account.userId === userId);
+  const accountLabel = activeAccount?.email || userId || 'this account';
+
+  const confirmBulk = (group: DeviceGroup, action: DeviceCommandAction, label: string) => {
+    const targets = bulkTargets(group.devices, action);
+    Alert.alert(
+      `${label} ${group.title}`,
+      `${label} ${targets.length} device(s) at ${group.title} for ${accountLabel}?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        // Commands only ever go to the devices the active account can see
+        { text: label, onPress: () => startBatch(targets.map(item => item.device.id), action) },
+      ]
+    );
+  };
+
+  const renderHeader = ({ section }: { section: DeviceGroup & { data: UserDevice[] } }) => (
+    <View style={styles.sectionHeader}>
+      <View style={styles.sectionTitleRow}>
+        <Text style={styles.sectionTitle}>{section.title}</Text>
+        <Text style={styles.sectionCount}>{section.devices.length}</Text>
+      </View>
+      <View style={styles.optionRow}>
+        {BULK_ACTIONS.map(({ action, label }) => {
+          const count = bulkTargets(section.devices, action).length;
+          return (
+            <TouchableOpacity
+              key={action}
+              style={[styles.option, count ? styles.optionIdle : styles.optionDisabled]}
+              onPress={() => confirmBulk(section, action, label)}
+              disabled={!count}
+            >
+              <Text style={[styles.optionText, !count && styles.optionTextDisabled]}>
+                {label} {count}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+    </View>
+  );
+
+  const renderDevice = ({ item }: { item: UserDevice }) => (
+    <TouchableOpacity style={styles.deviceRow} onPress={() => onSelectDevice?.(item.device.id)}>
+      <Text style={styles.deviceName}>{item.device.nickName || item.device.serialNo}</Text>
+      <Text style={styles.deviceStatus}>{getStatusLabel(item.device.status)}</Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <View style={styles.container}>
+      <TouchableOpacity onPress={onBack} style={styles.backButton}>
+        <Text style={styles.backText}>‹ Devices</Text>
+      </TouchableOpacity>
+      <Text style={styles.title}>Fleet</Text>
+      <Text style={styles.subtitle}>{accountLabel}</Text>
+
+      <View style={styles.optionRow}>
+        {(Object.keys(GROUPING_LABELS) as DeviceGrouping[]).map(option => (
+          <TouchableOpacity
+            key={option}
+            style={[styles.option, grouping === option ? styles.optionSelected : styles.optionIdle]}
+            onPress={() => setGrouping(option)}
+          >
+            <Text style={[styles.optionText, grouping === option && styles.optionTextSelected]}>
+              By {GROUPING_LABELS[option].toLowerCase()}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <SectionList
+        sections={groups.map(group => ({ ...group, data: group.devices }))}
+        keyExtractor={item => item.id}
+        renderItem={renderDevice}
+        renderSectionHeader={renderHeader}
+        stickySectionHeadersEnabled={false}
+        ListHeaderComponent={BatchProgress}
+        contentContainerStyle={styles.listContent}
+        ListEmptyComponent={<Text style={styles.emptyText}>No devices connected yet</Text>}
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    padding: 16,
+    gap: 12,
+  },
+  backButton: {
+    paddingVertical: 4,
+  },
+  backText: {
+    fontSize: 16,
+    color: '#F8AB16',
+    fontWeight: '600',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#333',
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#666',
+  },
+  listContent: {
+    gap: 4,
+    paddingBottom: 16,
+  },
+  sectionHeader: {
+    marginTop: 12,
+    gap: 8,
+  },
+  sectionTitleRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    flexShrink: 1,
+  },
+  sectionCount: {
+    fontSize: 13,
+    color: '#999',
+  },
+  deviceRow: {
+    backgroundColor: 'white',
+    borderRadius: 8,
+    padding: 12,
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.1,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  deviceName: {
+    fontSize: 15,
+    color: '#333',
+    flexShrink: 1,
+  },
+  deviceStatus: {
+    fontSize: 13,
+    color: '#666',
+  },
+  optionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  option: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  optionIdle: {
+    borderColor: '#ccc',
+    backgroundColor: '#fff',
+  },
+  optionSelected: {
+    borderColor: '#F8AB16',
+    backgroundColor: '#F8AB16',
+  },
+  optionDisabled: {
+    borderColor: '#eee',
+    backgroundColor: '#f5f5f5',
+  },
+  optionText: {
+    color: '#666',
+    fontWeight: '500',
+  },
+  optionTextSelected: {
+    color: '#fff',
+  },
+  optionTextDisabled: {
+    color: '#aaa',
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#666',
+    textAlign: 'center',
+    padding: 20,
+  },
+});
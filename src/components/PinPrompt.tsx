@@ -0,0 +1,130 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, TextInput, StyleSheet, TouchableOpacity, Modal } from 'react-native';
+import { cancelPinPrompt, submitPin } from '../services/appLock';
+import { usePinPrompt } from '../store/hooks';
+
+// Asks for the app lock PIN whenever the lock service needs it; mounted once at the app root
+export const PinPrompt = () => {
+  const request = usePinPrompt();
+  const [pin, setPin] = useState('');
+  const [isChecking, setIsChecking] = useState(false);
+
+  // Fresh input for every prompt and after each wrong attempt
+  useEffect(() => {
+    setPin('');
+  }, [request]);
+
+  const handleSubmit = async () => {
+    if (!pin || isChecking) {
+      return;
+    }
+    setIsChecking(true);
+    try {
+      await submitPin(pin);
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  return (
+    <Modal visible={Boolean(request)} transparent animationType="fade" onRequestClose={cancelPinPrompt}>
+      <View style={styles.backdrop}>
+        <View style={styles.card}>
+          <Text style={styles.title}>Enter your PIN</Text>
+          <Text style={styles.reason}>{request?.reason}</Text>
+          <TextInput
+            style={styles.input}
+            value={pin}
+            onChangeText={text => setPin(text.replace(/\D/g, ''))}
+            onSubmitEditing={handleSubmit}
+            keyboardType="number-pad"
+            secureTextEntry
+            maxLength={8}
+            autoFocus
+          />
+          {request?.error ? <Text style={styles.errorText}>{request.error}</Text> : null}
+          <View style={styles.buttonRow}>
+            <TouchableOpacity style={[styles.button, styles.buttonIdle]} onPress={cancelPinPrompt}>
+              <Text style={styles.buttonIdleText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.button, pin && !isChecking ? styles.buttonActive : styles.buttonDisabled]}
+              onPress={handleSubmit}
+              disabled={!pin || isChecking}
+            >
+              <Text style={styles.buttonText}>Confirm</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+    justifyContent: 'center',
+    padding: 24,
+  },
+  card: {
+    backgroundColor: 'white',
+    borderRadius: 8,
+    padding: 16,
+    gap: 10,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#333',
+  },
+  reason: {
+    fontSize: 14,
+    color: '#666',
+  },
+  input: {
+    height: 45,
+    borderWidth: 1,
+    borderColor: '#ccc',
+    borderRadius: 5,
+    paddingHorizontal: 10,
+    fontSize: 18,
+    letterSpacing: 4,
+  },
+  errorText: {
+    color: '#c62828',
+    fontSize: 14,
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  button: {
+    flex: 1,
+    height: 45,
+    justifyContent: 'center',
+    alignItems: 'center',
+    borderRadius: 5,
+  },
+  buttonIdle: {
+    borderWidth: 1,
+    borderColor: '#ccc',
+  },
+  buttonIdleText: {
+    color: '#666',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  buttonActive: {
+    backgroundColor: '#F8AB16',
+  },
+  buttonDisabled: {
+    backgroundColor: '#ccc',
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,169 @@
+import React, { useState } from 'react';
+import { Text, StyleSheet, TouchableOpacity, ActivityIndicator, ScrollView, View } from 'react-native';
+import { register } from '../services/api';
+import { getAccountErrorMessage } from '../utils/authErrors';
+import { FormErrors, PASSWORD_MIN_LENGTH, RegistrationForm, hasErrors, validateRegistration } from '../utils/formValidation';
+import { FormField } from './FormField';
+import { createLogger } from '../services/logger';
+
+const log = createLogger('RegisterAccount');
+
+interface RegisterAccountProps {
+  onBack: () => void;
+  onRegistered: (email: string) => void;
+}
+
+const EMPTY_FORM: RegistrationForm = { name: '', email: '', password: '', confirmPassword: '' };
+
+export const RegisterAccount = ({ onBack, onRegistered }: RegisterAccountProps) => {
+  const [form, setForm] = useState<RegistrationForm>(EMPTY_FORM);
+  const [fieldErrors, setFieldErrors] = useState<FormErrors<RegistrationForm>>({});
+  const [error, setError] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const setField = (field: keyof RegistrationForm) => (value: string) =>
+    setForm(prev => ({ ...prev, [field]: value }));
+
+  const handleSubmit = async () => {
+    const errors = validateRegistration(form);
+    setFieldErrors(errors);
+    if (hasErrors(errors)) {
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError('');
+    try {
+      const account = await register({
+        name: form.name.trim(),
+        email: form.email.trim(),
+        password: form.password,
+      });
+      onRegistered(account.email);
+    } catch (err) {
+      log.error('Failed to register:', err);
+      setError(getAccountErrorMessage(err, 'Failed to create the account'));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <TouchableOpacity onPress={onBack} style={styles.backButton}>
+        <Text style={styles.backText}>‹ Login</Text>
+      </TouchableOpacity>
+      <Text style={styles.title}>Create account</Text>
+
+      {error ? <Text style={styles.errorText}>{error}</Text> : null}
+
+      <View style={styles.card}>
+        <FormField
+          placeholder="Name"
+          value={form.name}
+          onChangeText={setField('name')}
+          error={fieldErrors.name}
+          textContentType="name"
+        />
+        <FormField
+          placeholder="Email"
+          value={form.email}
+          onChangeText={setField('email')}
+          error={fieldErrors.email}
+          autoCapitalize="none"
+          keyboardType="email-address"
+          textContentType="emailAddress"
+        />
+        <FormField
+          placeholder="Password"
+          value={form.password}
+          onChangeText={setField('password')}
+          error={fieldErrors.password}
+          secureTextEntry
+          textContentType="newPassword"
+        />
+        <FormField
+          placeholder="Repeat password"
+          value={form.confirmPassword}
+          onChangeText={setField('confirmPassword')}
+          error={fieldErrors.confirmPassword}
+          secureTextEntry
+          textContentType="newPassword"
+        />
+        <Text style={styles.hint}>At least {PASSWORD_MIN_LENGTH} characters, with letters and numbers.</Text>
+        <TouchableOpacity
+          style={[styles.button, isSubmitting ? styles.buttonDisabled : styles.buttonActive]}
+          onPress={handleSubmit}
+          disabled={isSubmitting}
+        >
+          {isSubmitting ? (
+            <ActivityIndicator size="small" color="#fff" />
+          ) : (
+            <Text style={styles.buttonText}>Create account</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: 16,
+    gap: 12,
+  },
+  backButton: {
+    paddingVertical: 4,
+  },
+  backText: {
+    fontSize: 16,
+    color: '#F8AB16',
+    fontWeight: '600',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#333',
+  },
+  errorText: {
+    color: '#c62828',
+    backgroundColor: '#ffebee',
+    padding: 10,
+    borderRadius: 5,
+  },
+  card: {
+    backgroundColor: 'white',
+    borderRadius: 8,
+    padding: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  hint: {
+    fontSize: 13,
+    color: '#666',
+    marginBottom: 12,
+  },
+  button: {
+    height: 45,
+    justifyContent: 'center',
+    alignItems: 'center',
+    borderRadius: 5,
+  },
+  buttonActive: {
+    backgroundColor: '#F8AB16',
+  },
+  buttonDisabled: {
+    backgroundColor: '#ccc',
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
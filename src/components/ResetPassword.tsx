@@ -0,0 +1,223 @@
+import React, { useState } from 'react';
+import { Text, StyleSheet, TouchableOpacity, ActivityIndicator, ScrollView, View } from 'react-native';
+import { confirmPasswordReset, requestPasswordReset } from '../services/api';
+import { getAccountErrorMessage } from '../utils/authErrors';
+import {
+  FormErrors,
+  PASSWORD_MIN_LENGTH,
+  PasswordResetForm,
+  hasErrors,
+  validateEmailOnly,
+  validatePasswordReset,
+} from '../utils/formValidation';
+import { FormField } from './FormField';
+import { createLogger } from '../services/logger';
+
+const log = createLogger('ResetPassword');
+
+interface ResetPasswordProps {
+  initialEmail?: string;
+  onBack: () => void;
+  onReset: () => void;
+}
+
+const EMPTY_FORM: PasswordResetForm = { code: '', password: '', confirmPassword: '' };
+
+export const ResetPassword = ({ initialEmail = '', onBack, onReset }: ResetPasswordProps) => {
+  const [step, setStep] = useState<'request' | 'confirm'>('request');
+  const [email, setEmail] = useState(initialEmail);
+  const [emailError, setEmailError] = useState<string | undefined>();
+  const [form, setForm] = useState<PasswordResetForm>(EMPTY_FORM);
+  const [fieldErrors, setFieldErrors] = useState<FormErrors<PasswordResetForm>>({});
+  const [error, setError] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const setField = (field: keyof PasswordResetForm) => (value: string) =>
+    setForm(prev => ({ ...prev, [field]: value }));
+
+  const handleRequest = async () => {
+    const errors = validateEmailOnly(email);
+    setEmailError(errors.email);
+    if (hasErrors(errors)) {
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError('');
+    try {
+      await requestPasswordReset(email.trim());
+      setStep('confirm');
+    } catch (err) {
+      log.error('Failed to request password reset:', err);
+      setError(getAccountErrorMessage(err, 'Failed to send the reset code'));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleConfirm = async () => {
+    const errors = validatePasswordReset(form);
+    setFieldErrors(errors);
+    if (hasErrors(errors)) {
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError('');
+    try {
+      await confirmPasswordReset({ email: email.trim(), code: form.code.trim(), newPassword: form.password });
+      onReset();
+    } catch (err) {
+      log.error('Failed to reset password:', err);
+      setError(getAccountErrorMessage(err, 'Failed to reset the password'));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const submitButton = (label: string, onPress: () => void) => (
+    <TouchableOpacity
+      style={[styles.button, isSubmitting ? styles.buttonDisabled : styles.buttonActive]}
+      onPress={onPress}
+      disabled={isSubmitting}
+    >
+      {isSubmitting ? (
+        <ActivityIndicator size="small" color="#fff" />
+      ) : (
+        <Text style={styles.buttonText}>{label}</Text>
+      )}
+    </TouchableOpacity>
+  );
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <TouchableOpacity onPress={onBack} style={styles.backButton}>
+        <Text style={styles.backText}>‹ Login</Text>
+      </TouchableOpacity>
+      <Text style={styles.title}>Reset password</Text>
+
+      {error ? <Text style={styles.errorText}>{error}</Text> : null}
+
+      {step === 'request' ? (
+        <View style={styles.card}>
+          <Text style={styles.hint}>Enter your account email and we will send you a code to choose a new password.</Text>
+          <FormField
+            placeholder="Email"
+            value={email}
+            onChangeText={setEmail}
+            error={emailError}
+            autoCapitalize="none"
+            keyboardType="email-address"
+            textContentType="emailAddress"
+          />
+          {submitButton('Send reset code', handleRequest)}
+        </View>
+      ) : (
+        <View style={styles.card}>
+          <Text style={styles.hint}>
+            If {email.trim()} has an account, a 6-digit code is on its way. Enter it with your new password.
+          </Text>
+          <FormField
+            placeholder="Reset code"
+            value={form.code}
+            onChangeText={setField('code')}
+            error={fieldErrors.code}
+            keyboardType="number-pad"
+            textContentType="oneTimeCode"
+            maxLength={6}
+          />
+          <FormField
+            placeholder="New password"
+            value={form.password}
+            onChangeText={setField('password')}
+            error={fieldErrors.password}
+            secureTextEntry
+            textContentType="newPassword"
+          />
+          <FormField
+            placeholder="Repeat new password"
+            value={form.confirmPassword}
+            onChangeText={setField('confirmPassword')}
+            error={fieldErrors.confirmPassword}
+            secureTextEntry
+            textContentType="newPassword"
+          />
+          <Text style={styles.hint}>At least {PASSWORD_MIN_LENGTH} characters, with letters and numbers.</Text>
+          {submitButton('Set new password', handleConfirm)}
+          <TouchableOpacity style={styles.linkButton} onPress={() => setStep('request')} disabled={isSubmitting}>
+            <Text style={styles.linkText}>Use a different email</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: 16,
+    gap: 12,
+  },
+  backButton: {
+    paddingVertical: 4,
+  },
+  backText: {
+    fontSize: 16,
+    color: '#F8AB16',
+    fontWeight: '600',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#333',
+  },
+  errorText: {
+    color: '#c62828',
+    backgroundColor: '#ffebee',
+    padding: 10,
+    borderRadius: 5,
+  },
+  card: {
+    backgroundColor: 'white',
+    borderRadius: 8,
+    padding: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  hint: {
+    fontSize: 15,
+    color: '#666',
+    marginBottom: 12,
+  },
+  button: {
+    height: 45,
+    justifyContent: 'center',
+    alignItems: 'center',
+    borderRadius: 5,
+  },
+  buttonActive: {
+    backgroundColor: '#F8AB16',
+  },
+  buttonDisabled: {
+    backgroundColor: '#ccc',
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  linkButton: {
+    alignItems: 'center',
+    paddingVertical: 12,
+  },
+  linkText: {
+    color: '#F8AB16',
+    fontWeight: '600',
+  },
+});
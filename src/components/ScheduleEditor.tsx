@@ -0,0 +1,400 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  TouchableOpacity,
+  ActivityIndicator,
+  ScrollView,
+  Switch,
+  Alert,
+} from 'react-native';
+import { DeviceCommandAction, UserDevice } from '../services/api';
+import { createSchedule, deleteSchedule, fetchSchedules, updateSchedule } from '../services/schedules';
+import { confirmSensitiveAction } from '../services/appLock';
+import {
+  ScheduleRule,
+  WEEKDAY_LABELS,
+  Weekday,
+  describeRule,
+  findConflicts,
+  isValidTime,
+  isValidTimeZone,
+  nextScheduledAction,
+} from '../utils/schedule';
+import { toggleValue } from '../utils/deviceQuery';
+import { createLogger } from '../services/logger';
+
+const log = createLogger('ScheduleEditor');
+
+interface ScheduleEditorProps {
+  userDevice: UserDevice;
+  onBack: () => void;
+}
+
+const WEEKDAYS: Weekday[] = [1, 2, 3, 4, 5, 6, 0];
+
+const defaultTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+export const ScheduleEditor = ({ userDevice, onBack }: ScheduleEditorProps) => {
+  const deviceId = userDevice.device.id;
+  const [rules, setRules] = useState<ScheduleRule[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [busyIds, setBusyIds] = useState<{ [key: string]: boolean }>({});
+
+  const [days, setDays] = useState<Weekday[]>([1, 2, 3, 4, 5]);
+  const [time, setTime] = useState('22:00');
+  const [timeZone, setTimeZone] = useState(defaultTimeZone());
+  const [action, setAction] = useState<DeviceCommandAction>('block');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadRules = async () => {
+    setIsLoading(true);
+    setError('');
+    try {
+      setRules(await fetchSchedules(deviceId));
+    } catch (err) {
+      log.error('Failed to load schedules:', err);
+      setError('Failed to load schedules');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadRules();
+  }, [deviceId]);
+
+  const conflicts = useMemo(() => findConflicts(rules), [rules]);
+  const nextAction = useMemo(() => nextScheduledAction(rules, new Date()), [rules]);
+
+  const setBusy = (id: string, busy: boolean) => setBusyIds(prev => ({ ...prev, [id]: busy }));
+
+  // A schedule moves the barrier on its own later, so it goes through the app lock like a direct command
+  const confirmChange = async (ruleAction: DeviceCommandAction) => {
+    const target = userDevice.device.nickName || userDevice.device.serialNo;
+    if (await confirmSensitiveAction({ source: 'schedule', action: ruleAction, target })) {
+      return true;
+    }
+    setError('The schedule was not changed, the app lock was not confirmed');
+    return false;
+  };
+
+  const handleAdd = async () => {
+    if (!days.length) {
+      setError('Pick at least one day');
+      return;
+    }
+    if (!isValidTime(time)) {
+      setError('Time must be in 24h HH:mm format, e.g. 07:30');
+      return;
+    }
+    if (!isValidTimeZone(timeZone)) {
+      setError(`Unknown time zone "${timeZone}"`);
+      return;
+    }
+
+    const draft: ScheduleRule = { id: 'draft', deviceId, days, time, timeZone, action, enabled: true };
+    const clashes = findConflicts([...rules, draft]).filter(conflict => conflict.second.id === 'draft');
+    const save = async () => {
+      if (!(await confirmChange(action))) {
+        return;
+      }
+      setIsSaving(true);
+      setError('');
+      try {
+        const created = await createSchedule(deviceId, { days, time, timeZone, action, enabled: true });
+        setRules(prev => [...prev, created]);
+      } catch (err: any) {
+        log.error('Failed to create schedule:', err);
+        setError(err?.message || 'Failed to save the schedule');
+      } finally {
+        setIsSaving(false);
+      }
+    };
+
+    if (clashes.length) {
+      Alert.alert(
+        'Conflicting schedule',
+        `This rule overlaps with "${describeRule(clashes[0].first)}".`,
+        [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Save anyway', onPress: save },
+        ]
+      );
+      return;
+    }
+    await save();
+  };
+
+  const handleToggle = async (rule: ScheduleRule, enabled: boolean) => {
+    if (!(await confirmChange(rule.action))) {
+      return;
+    }
+    setBusy(rule.id, true);
+    try {
+      const updated = await updateSchedule(deviceId, rule.id, { enabled });
+      setRules(prev => prev.map(item => (item.id === rule.id ? updated : item)));
+    } catch (err) {
+      log.error('Failed to update schedule:', err);
+      setError('Failed to update the schedule');
+    } finally {
+      setBusy(rule.id, false);
+    }
+  };
+
+  const handleDelete = async (rule: ScheduleRule) => {
+    if (!(await confirmChange(rule.action))) {
+      return;
+    }
+    setBusy(rule.id, true);
+    try {
+      await deleteSchedule(deviceId, rule.id);
+      setRules(prev => prev.filter(item => item.id !== rule.id));
+    } catch (err) {
+      log.error('Failed to delete schedule:', err);
+      setError('Failed to delete the schedule');
+      setBusy(rule.id, false);
+    }
+  };
+
+  const conflictFor = (rule: ScheduleRule) =>
+    conflicts.find(conflict => conflict.first.id === rule.id || conflict.second.id === rule.id);
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <TouchableOpacity onPress={onBack} style={styles.backButton}>
+        <Text style={styles.backText}>‹ {userDevice.device.nickName || userDevice.device.serialNo}</Text>
+      </TouchableOpacity>
+      <Text style={styles.title}>Schedules</Text>
+
+      {error ? <Text style={styles.errorText}>{error}</Text> : null}
+
+      <View style={styles.card}>
+        <Text style={styles.label}>Next scheduled action</Text>
+        <Text style={styles.value}>
+          {nextAction
+            ? `${nextAction.rule.action === 'block' ? 'Block' : 'Unblock'} on ${nextAction.at.toLocaleString()}`
+            : 'Nothing scheduled'}
+        </Text>
+      </View>
+
+      {isLoading ? (
+        <ActivityIndicator size="large" color="#F8AB16" />
+      ) : (
+        rules.map(rule => {
+          const conflict = conflictFor(rule);
+          return (
+            <View key={rule.id} style={styles.card}>
+              <View style={styles.ruleHeader}>
+                <Text style={styles.ruleText}>{describeRule(rule)}</Text>
+                <Switch
+                  value={rule.enabled}
+                  onValueChange={enabled => handleToggle(rule, enabled)}
+                  disabled={busyIds[rule.id]}
+                />
+              </View>
+              {conflict && (
+                <Text style={styles.conflictText}>
+                  {conflict.kind === 'contradiction' ? 'Contradicts' : 'Duplicates'} another rule
+                  around {conflict.at.toLocaleString()}
+                </Text>
+              )}
+              <TouchableOpacity onPress={() => handleDelete(rule)} disabled={busyIds[rule.id]}>
+                <Text style={styles.deleteText}>Delete</Text>
+              </TouchableOpacity>
+            </View>
+          );
+        })
+      )}
+
+      <View style={styles.card}>
+        <Text style={styles.label}>New rule</Text>
+        <View style={styles.optionRow}>
+          {(['block', 'unblock'] as DeviceCommandAction[]).map(option => (
+            <TouchableOpacity
+              key={option}
+              style={[styles.option, action === option ? styles.optionSelected : styles.optionIdle]}
+              onPress={() => setAction(option)}
+            >
+              <Text style={[styles.optionText, action === option && styles.optionTextSelected]}>
+                {option === 'block' ? 'Block' : 'Unblock'}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+        <View style={styles.optionRow}>
+          {WEEKDAYS.map(day => (
+            <TouchableOpacity
+              key={day}
+              style={[styles.option, days.includes(day) ? styles.optionSelected : styles.optionIdle]}
+              onPress={() => setDays(prev => toggleValue(prev, day))}
+            >
+              <Text style={[styles.optionText, days.includes(day) && styles.optionTextSelected]}>
+                {WEEKDAY_LABELS[day]}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+        <View style={styles.inputRow}>
+          <TextInput
+            style={[styles.input, styles.timeInput]}
+            placeholder="HH:mm"
+            value={time}
+            onChangeText={setTime}
+            keyboardType="numbers-and-punctuation"
+            maxLength={5}
+          />
+          <TextInput
+            style={[styles.input, styles.zoneInput]}
+            placeholder="Time zone"
+            value={timeZone}
+            onChangeText={setTimeZone}
+            autoCapitalize="none"
+            autoCorrect={false}
+          />
+        </View>
+        <TouchableOpacity
+          style={[styles.button, isSaving ? styles.buttonDisabled : styles.buttonActive]}
+          onPress={handleAdd}
+          disabled={isSaving}
+        >
+          {isSaving ? (
+            <ActivityIndicator size="small" color="#fff" />
+          ) : (
+            <Text style={styles.buttonText}>Add rule</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: 16,
+    gap: 12,
+  },
+  backButton: {
+    paddingVertical: 4,
+  },
+  backText: {
+    fontSize: 16,
+    color: '#F8AB16',
+    fontWeight: '600',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#333',
+  },
+  errorText: {
+    color: '#c62828',
+    backgroundColor: '#ffebee',
+    padding: 10,
+    borderRadius: 5,
+  },
+  card: {
+    backgroundColor: 'white',
+    borderRadius: 8,
+    padding: 16,
+    gap: 10,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  label: {
+    fontSize: 12,
+    color: '#999',
+    textTransform: 'uppercase',
+  },
+  value: {
+    fontSize: 16,
+    color: '#333',
+  },
+  ruleHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: 8,
+  },
+  ruleText: {
+    flexShrink: 1,
+    fontSize: 15,
+    color: '#333',
+  },
+  conflictText: {
+    color: '#c62828',
+    fontSize: 13,
+  },
+  deleteText: {
+    color: '#c62828',
+    fontWeight: '600',
+  },
+  optionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  option: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  optionIdle: {
+    borderColor: '#ccc',
+    backgroundColor: '#fff',
+  },
+  optionSelected: {
+    borderColor: '#F8AB16',
+    backgroundColor: '#F8AB16',
+  },
+  optionText: {
+    color: '#666',
+    fontWeight: '500',
+  },
+  optionTextSelected: {
+    color: '#fff',
+  },
+  inputRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ccc',
+    borderRadius: 5,
+    padding: 10,
+  },
+  timeInput: {
+    width: 80,
+  },
+  zoneInput: {
+    flex: 1,
+  },
+  button: {
+    height: 45,
+    justifyContent: 'center',
+    alignItems: 'center',
+    borderRadius: 5,
+  },
+  buttonActive: {
+    backgroundColor: '#F8AB16',
+  },
+  buttonDisabled: {
+    backgroundColor: '#ccc',
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
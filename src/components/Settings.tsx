@@ -0,0 +1,371 @@
+import React, { useState } from 'react';
+import { View, Text, TextInput, StyleSheet, TouchableOpacity, ActivityIndicator, ScrollView, Switch } from 'react-native';
+import { refreshTokens } from '../services/api';
+import { changePin, disableAppLock, enableAppLock, updateAppLockSettings } from '../services/appLock';
+import { getRefreshErrorMessage } from '../utils/authErrors';
+import { IDLE_MINUTE_OPTIONS, LOCK_POLICY_LABELS, LockPolicy, isValidPin } from '../utils/appLock';
+import { useAppLockSettings, useSession } from '../store/hooks';
+import { createLogger } from '../services/logger';
+
+const log = createLogger('Settings');
+
+interface SettingsProps {
+  onBack: () => void;
+  onOpenAlerts?: () => void;
+  onOpenAccounts?: () => void;
+  onOpenDiagnostics?: () => void;
+  onLogout: () => Promise<void>;
+}
+
+export const Settings = ({ onBack, onOpenAlerts, onOpenAccounts, onOpenDiagnostics, onLogout }: SettingsProps) => {
+  const { userId, accounts } = useSession();
+  const activeAccount = accounts.find(account => account.userId === userId);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [isLoggingOut, setIsLoggingOut] = useState(false);
+  const [status, setStatus] = useState('');
+  const [statusType, setStatusType] = useState<'success' | 'error'>('success');
+  const appLock = useAppLockSettings();
+  const [pin, setPin] = useState('');
+
+  const showStatus = (message: string, type: 'success' | 'error') => {
+    setStatus(message);
+    setStatusType(type);
+  };
+
+  const handleRefreshToken = async () => {
+    setIsRefreshing(true);
+    setStatus('');
+    try {
+      await refreshTokens();
+      setStatus('Token refreshed successfully!');
+      setStatusType('success');
+    } catch (error) {
+      setStatus(getRefreshErrorMessage(error));
+      setStatusType('error');
+    } finally {
+      setIsRefreshing(false);
+    }
+  };
+
+  const handleSetPin = async () => {
+    if (!isValidPin(pin)) {
+      showStatus('The PIN must be 4 to 8 digits', 'error');
+      return;
+    }
+    try {
+      if (!appLock.enabled) {
+        await enableAppLock(pin);
+        showStatus('App lock turned on', 'success');
+      } else if (await changePin(pin)) {
+        showStatus('PIN changed', 'success');
+      } else {
+        showStatus('The PIN was not changed', 'error');
+        return;
+      }
+      setPin('');
+    } catch (error) {
+      log.error('Failed to save the app lock PIN:', error);
+      showStatus('Failed to save the PIN', 'error');
+    }
+  };
+
+  const handleDisableLock = async () => {
+    if (await disableAppLock()) {
+      showStatus('App lock turned off', 'success');
+    }
+  };
+
+  const handleLockChange = async (patch: Parameters<typeof updateAppLockSettings>[0]) => {
+    try {
+      if (!(await updateAppLockSettings(patch))) {
+        showStatus('The app lock was not changed', 'error');
+      }
+    } catch (error) {
+      log.error('Failed to update app lock settings:', error);
+      showStatus('Failed to update the app lock', 'error');
+    }
+  };
+
+  const handleLogout = async () => {
+    setIsLoggingOut(true);
+    try {
+      await onLogout();
+    } catch (error) {
+      log.error('Failed to logout:', error);
+      setIsLoggingOut(false);
+    }
+  };
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <TouchableOpacity onPress={onBack} style={styles.backButton}>
+        <Text style={styles.backText}>‹ Devices</Text>
+      </TouchableOpacity>
+      <Text style={styles.title}>Settings</Text>
+
+      {status ? (
+        <Text style={[styles.statusText, statusType === 'success' ? styles.statusSuccess : styles.statusError]}>
+          {status}
+        </Text>
+      ) : null}
+
+      <View style={styles.section}>
+        <Text style={styles.label}>Account</Text>
+        {activeAccount?.email ? <Text style={styles.value}>{activeAccount.email}</Text> : null}
+        <Text style={styles.value}>User ID: {userId ?? 'Unknown'}</Text>
+        <TouchableOpacity
+          style={[styles.button, isRefreshing ? styles.buttonDisabled : styles.buttonActive]}
+          onPress={handleRefreshToken}
+          disabled={isRefreshing}
+        >
+          {isRefreshing ? (
+            <ActivityIndicator size="small" color="#fff" />
+          ) : (
+            <Text style={styles.buttonText}>Refresh Token</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+
+      {onOpenAccounts && (
+        <View style={styles.section}>
+          <Text style={styles.label}>Accounts</Text>
+          <Text style={styles.value}>
+            {accounts.length > 1 ? `${accounts.length} accounts on this device` : 'Only this account on this device'}
+          </Text>
+          <TouchableOpacity style={[styles.button, styles.buttonActive]} onPress={onOpenAccounts}>
+            <Text style={styles.buttonText}>Switch or add account</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      <View style={styles.section}>
+        <Text style={styles.label}>App lock</Text>
+        <Text style={styles.value}>
+          {appLock.enabled
+            ? 'Barrier commands, bulk actions and schedule changes ask for your PIN'
+            : 'Off: anyone holding this phone can move your barriers'}
+        </Text>
+
+        {appLock.enabled && (
+          <>
+            <View style={styles.optionRow}>
+              {(Object.keys(LOCK_POLICY_LABELS) as LockPolicy[]).map(policy => (
+                <TouchableOpacity
+                  key={policy}
+                  style={[styles.option, appLock.policy === policy ? styles.optionSelected : styles.optionIdle]}
+                  onPress={() => handleLockChange({ policy })}
+                >
+                  <Text style={[styles.optionText, appLock.policy === policy && styles.optionTextSelected]}>
+                    {LOCK_POLICY_LABELS[policy]}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            {appLock.policy === 'idle' && (
+              <View style={styles.optionRow}>
+                {IDLE_MINUTE_OPTIONS.map(minutes => (
+                  <TouchableOpacity
+                    key={minutes}
+                    style={[styles.option, appLock.idleMinutes === minutes ? styles.optionSelected : styles.optionIdle]}
+                    onPress={() => handleLockChange({ idleMinutes: minutes })}
+                  >
+                    <Text style={[styles.optionText, appLock.idleMinutes === minutes && styles.optionTextSelected]}>
+                      {minutes} min
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            )}
+            <View style={styles.switchRow}>
+              <Text style={styles.value}>Use Face ID / fingerprint</Text>
+              <Switch
+                value={appLock.useBiometrics}
+                onValueChange={useBiometrics => handleLockChange({ useBiometrics })}
+                trackColor={{ true: '#F8AB16' }}
+              />
+            </View>
+          </>
+        )}
+
+        <TextInput
+          style={styles.input}
+          value={pin}
+          onChangeText={text => setPin(text.replace(/\D/g, ''))}
+          placeholder={appLock.enabled ? 'New PIN' : 'PIN (4 to 8 digits)'}
+          keyboardType="number-pad"
+          secureTextEntry
+          maxLength={8}
+        />
+        <TouchableOpacity
+          style={[styles.button, pin ? styles.buttonActive : styles.buttonDisabled]}
+          onPress={handleSetPin}
+          disabled={!pin}
+        >
+          <Text style={styles.buttonText}>{appLock.enabled ? 'Change PIN' : 'Turn on app lock'}</Text>
+        </TouchableOpacity>
+        {appLock.enabled && (
+          <TouchableOpacity style={styles.secondaryButton} onPress={handleDisableLock}>
+            <Text style={styles.secondaryButtonText}>Turn off app lock</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+
+      {onOpenAlerts && (
+        <View style={styles.section}>
+          <Text style={styles.label}>Notifications</Text>
+          <TouchableOpacity style={[styles.button, styles.buttonActive]} onPress={onOpenAlerts}>
+            <Text style={styles.buttonText}>Alert thresholds</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      {onOpenDiagnostics && (
+        <View style={styles.section}>
+          <Text style={styles.label}>Support</Text>
+          <TouchableOpacity style={[styles.button, styles.buttonActive]} onPress={onOpenDiagnostics}>
+            <Text style={styles.buttonText}>Send diagnostics</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      <TouchableOpacity style={styles.logoutButton} onPress={handleLogout} disabled={isLoggingOut}>
+        {isLoggingOut ? (
+          <ActivityIndicator size="small" color="#c62828" />
+        ) : (
+          <Text style={styles.logoutText}>Logout</Text>
+        )}
+      </TouchableOpacity>
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: 16,
+    gap: 12,
+  },
+  backButton: {
+    paddingVertical: 4,
+  },
+  backText: {
+    fontSize: 16,
+    color: '#F8AB16',
+    fontWeight: '600',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#333',
+  },
+  statusText: {
+    padding: 10,
+    borderRadius: 5,
+    fontWeight: '500',
+  },
+  statusSuccess: {
+    backgroundColor: '#e8f5e9',
+    color: '#2e7d32',
+  },
+  statusError: {
+    backgroundColor: '#ffebee',
+    color: '#c62828',
+  },
+  section: {
+    backgroundColor: 'white',
+    borderRadius: 8,
+    padding: 16,
+    gap: 10,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  label: {
+    fontSize: 12,
+    color: '#999',
+    textTransform: 'uppercase',
+  },
+  value: {
+    fontSize: 16,
+    color: '#333',
+  },
+  button: {
+    height: 45,
+    justifyContent: 'center',
+    alignItems: 'center',
+    borderRadius: 5,
+  },
+  buttonActive: {
+    backgroundColor: '#F8AB16',
+  },
+  buttonDisabled: {
+    backgroundColor: '#ccc',
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  input: {
+    height: 45,
+    borderWidth: 1,
+    borderColor: '#ccc',
+    borderRadius: 5,
+    paddingHorizontal: 10,
+    fontSize: 16,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  optionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  option: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  optionIdle: {
+    borderColor: '#ccc',
+    backgroundColor: '#fff',
+  },
+  optionSelected: {
+    borderColor: '#F8AB16',
+    backgroundColor: '#F8AB16',
+  },
+  optionText: {
+    color: '#666',
+    fontWeight: '500',
+  },
+  optionTextSelected: {
+    color: '#fff',
+  },
+  secondaryButton: {
+    paddingVertical: 8,
+    alignItems: 'center',
+  },
+  secondaryButtonText: {
+    color: '#666',
+    fontWeight: '600',
+  },
+  logoutButton: {
+    borderRadius: 8,
+    paddingVertical: 12,
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: '#c62828',
+  },
+  logoutText: {
+    color: '#c62828',
+    fontWeight: '600',
+  },
+});
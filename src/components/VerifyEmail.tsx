@@ -0,0 +1,178 @@
+import React, { useState } from 'react';
+import { Text, StyleSheet, TouchableOpacity, ActivityIndicator, ScrollView, View } from 'react-native';
+import { resendVerificationEmail, verifyEmail } from '../services/api';
+import { getAccountErrorMessage } from '../utils/authErrors';
+import { verificationCodeError } from '../utils/formValidation';
+import { FormField } from './FormField';
+import { createLogger } from '../services/logger';
+
+const log = createLogger('VerifyEmail');
+
+interface VerifyEmailProps {
+  email: string;
+  onBack: () => void;
+  onVerified: () => void;
+}
+
+export const VerifyEmail = ({ email, onBack, onVerified }: VerifyEmailProps) => {
+  const [code, setCode] = useState('');
+  const [codeError, setCodeError] = useState<string | undefined>();
+  const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isResending, setIsResending] = useState(false);
+
+  const handleVerify = async () => {
+    const invalid = verificationCodeError(code);
+    setCodeError(invalid);
+    if (invalid) {
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError('');
+    setNotice('');
+    try {
+      await verifyEmail(email, code.trim());
+      onVerified();
+    } catch (err) {
+      log.error('Failed to verify email:', err);
+      setError(getAccountErrorMessage(err, 'Failed to verify the email address'));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleResend = async () => {
+    setIsResending(true);
+    setError('');
+    setNotice('');
+    try {
+      await resendVerificationEmail(email);
+      setNotice(`A new code was sent to ${email}`);
+    } catch (err) {
+      log.error('Failed to resend verification email:', err);
+      setError(getAccountErrorMessage(err, 'Failed to send a new code'));
+    } finally {
+      setIsResending(false);
+    }
+  };
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <TouchableOpacity onPress={onBack} style={styles.backButton}>
+        <Text style={styles.backText}>‹ Login</Text>
+      </TouchableOpacity>
+      <Text style={styles.title}>Verify your email</Text>
+
+      {error ? <Text style={styles.errorText}>{error}</Text> : null}
+      {notice ? <Text style={styles.noticeText}>{notice}</Text> : null}
+
+      <View style={styles.card}>
+        <Text style={styles.hint}>We sent a 6-digit code to {email}. Enter it below to activate your account.</Text>
+        <FormField
+          placeholder="Verification code"
+          value={code}
+          onChangeText={setCode}
+          error={codeError}
+          keyboardType="number-pad"
+          textContentType="oneTimeCode"
+          maxLength={6}
+        />
+        <TouchableOpacity
+          style={[styles.button, isSubmitting ? styles.buttonDisabled : styles.buttonActive]}
+          onPress={handleVerify}
+          disabled={isSubmitting}
+        >
+          {isSubmitting ? (
+            <ActivityIndicator size="small" color="#fff" />
+          ) : (
+            <Text style={styles.buttonText}>Verify</Text>
+          )}
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.linkButton} onPress={handleResend} disabled={isResending}>
+          {isResending ? (
+            <ActivityIndicator size="small" color="#F8AB16" />
+          ) : (
+            <Text style={styles.linkText}>Send a new code</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: 16,
+    gap: 12,
+  },
+  backButton: {
+    paddingVertical: 4,
+  },
+  backText: {
+    fontSize: 16,
+    color: '#F8AB16',
+    fontWeight: '600',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#333',
+  },
+  errorText: {
+    color: '#c62828',
+    backgroundColor: '#ffebee',
+    padding: 10,
+    borderRadius: 5,
+  },
+  noticeText: {
+    color: '#2e7d32',
+    backgroundColor: '#e8f5e9',
+    padding: 10,
+    borderRadius: 5,
+  },
+  card: {
+    backgroundColor: 'white',
+    borderRadius: 8,
+    padding: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  hint: {
+    fontSize: 15,
+    color: '#666',
+    marginBottom: 12,
+  },
+  button: {
+    height: 45,
+    justifyContent: 'center',
+    alignItems: 'center',
+    borderRadius: 5,
+  },
+  buttonActive: {
+    backgroundColor: '#F8AB16',
+  },
+  buttonDisabled: {
+    backgroundColor: '#ccc',
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  linkButton: {
+    alignItems: 'center',
+    paddingVertical: 12,
+  },
+  linkText: {
+    color: '#F8AB16',
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,70 @@
+import * as Linking from 'expo-linking';
+import { LinkingOptions, getStateFromPath } from '@react-navigation/native';
+import { RootStackParamList } from './types';
+
+type MainRoute = {
+  [Name in keyof RootStackParamList]: { name: Name; params: RootStackParamList[Name] };
+}[keyof RootStackParamList];
+
+const PREFIXES = [Linking.createURL('/'), 'letsparky://'];
+
+const config: NonNullable<LinkingOptions<RootStackParamList>['config']> = {
+  // Cold starts from a link still get the device list underneath
+  initialRouteName: 'Devices',
+  screens: {
+    Devices: '',
+    DeviceDetail: 'device/:deviceId',
+    Alerts: 'alerts',
+  },
+};
+
+// Link that arrived while logged out, replayed once the user signs in
+let deferredPath: string | null = null;
+
+export const pathFromUrl = (url: string): string | null => {
+  const prefix = PREFIXES.find(candidate => url.startsWith(candidate));
+  return prefix === undefined ? null : url.slice(prefix.length).replace(/^\/+/, '');
+};
+
+// Screen a path points at, or null when it is not one of ours
+export const routeFromPath = (path: string): MainRoute | null => {
+  const state = getStateFromPath<RootStackParamList>(path, config);
+  const route = state?.routes[state.routes.length - 1];
+  return route ? ({ name: route.name, params: route.params } as MainRoute) : null;
+};
+
+// Hand back the deferred link, if any, and forget it
+export const takeDeferredPath = () => {
+  const path = deferredPath;
+  deferredPath = null;
+  return path;
+};
+
+// Links only target the main app; while logged out they wait for the login to finish
+export const createLinking = (isLoggedIn: () => boolean): LinkingOptions<RootStackParamList> => {
+  const accept = (url: string | null) => {
+    if (!url || isLoggedIn()) {
+      return url;
+    }
+    const path = pathFromUrl(url);
+    if (path && routeFromPath(path)) {
+      deferredPath = path;
+    }
+    return null;
+  };
+
+  return {
+    prefixes: PREFIXES,
+    config,
+    getInitialURL: async () => accept(await Linking.getInitialURL()),
+    subscribe: listener => {
+      const subscription = Linking.addEventListener('url', ({ url }) => {
+        const accepted = accept(url);
+        if (accepted) {
+          listener(accepted);
+        }
+      });
+      return () => subscription.remove();
+    },
+  };
+};
@@ -0,0 +1,31 @@
+import type { NativeStackScreenProps } from '@react-navigation/native-stack';
+
+// Only one group is mounted at a time: auth screens while logged out, the app once logged in
+export type RootStackParamList = {
+  Login: undefined;
+  Register: undefined;
+  VerifyEmail: { email: string };
+  ResetPassword: undefined;
+
+  Devices: undefined;
+  DeviceDetail: { deviceId: string };
+  DeviceSharing: { deviceId: string };
+  Schedules: { deviceId: string };
+  Activity: { deviceId: string };
+  AddDevice: undefined;
+  Alerts: undefined;
+  Settings: undefined;
+  Accounts: undefined;
+  AddAccount: undefined;
+  Organization: undefined;
+  Map: undefined;
+  Diagnostics: undefined;
+};
+
+export type RootScreenProps<T extends keyof RootStackParamList> = NativeStackScreenProps<RootStackParamList, T>;
+
+declare global {
+  namespace ReactNavigation {
+    interface RootParamList extends RootStackParamList {}
+  }
+}
@@ -0,0 +1,109 @@
+import { ApiResponse } from './api';
+import { apiClient } from './apiClient';
+import { toApiError } from './errors';
+import { activityEventSchema, activityPageSchema, validateList } from './validation';
+import { toCsv } from '../utils/csv';
+import { createLogger } from './logger';
+
+const log = createLogger('activity');
+
+export type ActivityType =
+  | 'BLOCK'
+  | 'UNBLOCK'
+  | 'ALARM'
+  | 'CONNECTION_LOST'
+  | 'CONNECTION_RESTORED'
+  | 'BATTERY_LOW';
+
+export type ActivityResult = 'SUCCESS' | 'FAILED' | 'PENDING';
+
+export interface ActivityActor {
+  id: string;
+  name: string;
+}
+
+export interface ActivityEvent {
+  id: string;
+  deviceId: string;
+  type: ActivityType;
+  // null when the barrier itself (or the server) raised the event
+  actor: ActivityActor | null;
+  timestamp: string;
+  result: ActivityResult;
+}
+
+export interface ActivityPage {
+  items: ActivityEvent[];
+  nextCursor: string | null;
+}
+
+export interface ActivityRange {
+  from: string | null;
+  to: string | null;
+}
+
+export interface ActivityExport {
+  events: ActivityEvent[];
+  // More events exist in the range than MAX_EXPORT_PAGES could hold
+  truncated: boolean;
+}
+
+const PAGE_SIZE = 30;
+// Upper bound for exports so a huge range can't spin forever
+const MAX_EXPORT_PAGES = 50;
+
+// Newest first, paginated with an opaque cursor
+export const fetchActivity = async (
+  deviceId: string,
+  range: ActivityRange,
+  cursor: string | null = null
+): Promise<ActivityPage> => {
+  try {
+    const response = await apiClient.get<ApiResponse>(`/tcp-device/${deviceId}/activity`, {
+      params: {
+        limit: PAGE_SIZE,
+        cursor: cursor ?? undefined,
+        from: range.from ?? undefined,
+        to: range.to ?? undefined,
+      },
+    });
+    const page = activityPageSchema(response.data.payload, '$.payload');
+    const { valid, invalid } = validateList(activityEventSchema, page.items, '$.payload.items');
+
+    invalid.forEach(issue => log.warn('Skipping activity entry:', issue.message));
+    return { items: valid, nextCursor: page.nextCursor };
+  } catch (error) {
+    throw toApiError(error);
+  }
+};
+
+// Walk every page of the range, used for exports; stops at MAX_EXPORT_PAGES and says so
+export const fetchAllActivity = async (deviceId: string, range: ActivityRange): Promise<ActivityExport> => {
+  const events: ActivityEvent[] = [];
+  let cursor: string | null = null;
+
+  for (let page = 0; page < MAX_EXPORT_PAGES; page++) {
+    const result: ActivityPage = await fetchActivity(deviceId, range, cursor);
+    events.push(...result.items);
+    cursor = result.nextCursor;
+    if (!cursor) {
+      break;
+    }
+  }
+  return { events, truncated: cursor !== null };
+};
+
+export const ACTIVITY_LABELS: Record<ActivityType, string> = {
+  BLOCK: 'Blocked',
+  UNBLOCK: 'Unblocked',
+  ALARM: 'Alarm',
+  CONNECTION_LOST: 'Connection lost',
+  CONNECTION_RESTORED: 'Connection restored',
+  BATTERY_LOW: 'Battery low',
+};
+
+export const activityToCsv = (events: ActivityEvent[]) =>
+  toCsv(
+    ['timestamp', 'event', 'actor', 'result'],
+    events.map(event => [event.timestamp, event.type, event.actor?.name ?? 'System', event.result])
+  );
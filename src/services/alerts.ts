@@ -0,0 +1,191 @@
+import { Platform } from 'react-native';
+import * as Notifications from 'expo-notifications';
+import type { Device } from './api';
+import { StorageAdapter, asyncStorage } from './storage';
+import {
+  ALERT_KIND_LABELS,
+  Alert,
+  AlertThresholds,
+  DEFAULT_ALERT_THRESHOLDS,
+  acknowledgeAlert,
+  evaluateDevices,
+  reconcileAlerts,
+  snoozeAlert,
+} from '../utils/alertRules';
+import { createLogger } from './logger';
+
+const log = createLogger('alerts');
+
+export type AlertNotifier = (alert: Alert) => Promise<void>;
+
+// Alerts are kept per account, so acknowledgements and snoozes survive switching back and forth
+const alertsKey = (userId: string) => `letsparky.alerts.${userId}`;
+const THRESHOLDS_KEY = 'letsparky.alertThresholds';
+const ANDROID_CHANNEL = 'device-alerts';
+
+let storage: StorageAdapter = asyncStorage;
+let alerts: Alert[] = [];
+// Account whose alerts are loaded; null while stopped
+let activeUserId: string | null = null;
+let thresholds: AlertThresholds = DEFAULT_ALERT_THRESHOLDS;
+// Null until the first real snapshot, so an empty list is never mistaken for "no devices"
+let lastDevices: Device[] | null = null;
+let canNotify = false;
+let isNotificationSetUp = false;
+// Snapshots arriving before the persisted alerts are restored would re-notify old alerts
+let isStarted = false;
+
+const alertsListeners = new Set<(alerts: Alert[]) => void>();
+
+const notifyWithExpo: AlertNotifier = async alert => {
+  if (!canNotify) {
+    return;
+  }
+  await Notifications.scheduleNotificationAsync({
+    content: {
+      title: `${alert.deviceName}: ${ALERT_KIND_LABELS[alert.kind]}`,
+      body: alert.message,
+      data: { deviceId: alert.deviceId, alertId: alert.id },
+    },
+    trigger: Platform.OS === 'android' ? { channelId: ANDROID_CHANNEL } : null,
+  });
+};
+
+let notifier: AlertNotifier = notifyWithExpo;
+
+// Swap the persistence backend (e.g. createMemoryStorage() in tests)
+export const setAlertStorage = (adapter: StorageAdapter) => {
+  storage = adapter;
+};
+
+// Swap how raised alerts reach the user (e.g. collect them in tests)
+export const setAlertNotifier = (next: AlertNotifier) => {
+  notifier = next;
+};
+
+export const getAlerts = () => alerts;
+
+export const getAlertThresholds = () => thresholds;
+
+export const subscribeAlerts = (listener: (alerts: Alert[]) => void) => {
+  alertsListeners.add(listener);
+  return () => {
+    alertsListeners.delete(listener);
+  };
+};
+
+const setAlerts = (next: Alert[]) => {
+  alerts = next;
+  alertsListeners.forEach(listener => listener(alerts));
+  if (!activeUserId) {
+    return;
+  }
+  storage.setItem(alertsKey(activeUserId), JSON.stringify(alerts))
+    .catch(error => log.error('Failed to persist alerts:', error));
+};
+
+// Run the rules against a fresh device snapshot and notify about anything new
+export const processDeviceSnapshot = (devices: Device[], now: number = Date.now()) => {
+  lastDevices = devices;
+  if (!isStarted) {
+    return;
+  }
+  const { alerts: next, raised } = reconcileAlerts(alerts, evaluateDevices(devices, thresholds, now), now);
+  setAlerts(next);
+
+  raised.forEach(alert => {
+    notifier(alert).catch(error => log.error('Failed to show alert notification:', error));
+  });
+};
+
+export const updateAlertThresholds = async (next: AlertThresholds) => {
+  thresholds = next;
+  await storage.setItem(THRESHOLDS_KEY, JSON.stringify(thresholds));
+  if (lastDevices) {
+    processDeviceSnapshot(lastDevices);
+  }
+};
+
+export const acknowledge = (id: string) => {
+  setAlerts(acknowledgeAlert(alerts, id, Date.now()));
+};
+
+export const snooze = (id: string, duration: number) => {
+  setAlerts(snoozeAlert(alerts, id, Date.now() + duration));
+};
+
+const setUpNotifications = async () => {
+  if (isNotificationSetUp) {
+    return;
+  }
+  isNotificationSetUp = true;
+  try {
+    Notifications.setNotificationHandler({
+      handleNotification: async () => ({
+        shouldShowAlert: true,
+        shouldPlaySound: true,
+        shouldSetBadge: false,
+      }),
+    });
+    if (Platform.OS === 'android') {
+      await Notifications.setNotificationChannelAsync(ANDROID_CHANNEL, {
+        name: 'Barrier alerts',
+        importance: Notifications.AndroidImportance.HIGH,
+      });
+    }
+    const { granted } = await Notifications.requestPermissionsAsync();
+    canNotify = granted;
+  } catch (error) {
+    log.error('Failed to set up notifications:', error);
+  }
+};
+
+// Restore the account's persisted alerts and the thresholds, and ask for permission to notify
+export const startAlerts = async (userId: string) => {
+  stopAlerts();
+  activeUserId = userId;
+  try {
+    const [rawAlerts, rawThresholds] = await Promise.all([
+      storage.getItem(alertsKey(userId)),
+      storage.getItem(THRESHOLDS_KEY),
+    ]);
+    if (activeUserId !== userId) {
+      return;
+    }
+    if (rawAlerts) {
+      setAlerts(JSON.parse(rawAlerts));
+    }
+    if (rawThresholds) {
+      thresholds = { ...DEFAULT_ALERT_THRESHOLDS, ...JSON.parse(rawThresholds) };
+    }
+  } catch (error) {
+    log.error('Failed to restore alerts:', error);
+  }
+
+  await setUpNotifications();
+  // Another account took over while this one was loading
+  if (activeUserId !== userId) {
+    return;
+  }
+  isStarted = true;
+  if (lastDevices) {
+    processDeviceSnapshot(lastDevices);
+  }
+};
+
+// Stop evaluating and unload the active account's alerts, keeping them stored for when it comes back
+export const stopAlerts = () => {
+  activeUserId = null;
+  isStarted = false;
+  alerts = [];
+  lastDevices = null;
+  alertsListeners.forEach(listener => listener(alerts));
+};
+
+// Forget an account's alerts for good, e.g. when it logs out
+export const clearAlerts = async (userId: string) => {
+  if (userId === activeUserId) {
+    stopAlerts();
+  }
+  await storage.removeItem(alertsKey(userId));
+};
@@ -1,10 +1,17 @@
-import axios from 'axios';
+import { apiClient, getTokens, refreshSession } from './apiClient';
+import { toApiError } from './errors';
+import { logout as endSession, removeSession, startSession } from './session';
+import { loginPayloadSchema, registerPayloadSchema, userDeviceSchema, validateList } from './validation';
+import { DeviceStatus } from '../utils/deviceStatus';
+import { createLogger } from './logger';
+
+const log = createLogger('api');
 
 // API Related Interfaces
-interface ApiResponse {
+export interface ApiResponse<T = unknown> {
   statusCode: number;
   message: string;
-  payload: any;
+  payload: T;
 }
 
 // Auth Related Interfaces
@@ -23,177 +30,253 @@ export interface TokenPair {
   refreshToken: string;
 }
 
+export interface RegisterRequest {
+  name: string;
+  email: string;
+  password: string;
+}
+
+export interface RegisterResponse {
+  userId: string;
+  email: string;
+}
+
+export interface PasswordResetConfirmation {
+  email: string;
+  code: string;
+  newPassword: string;
+}
+
 // Device Related Interfaces
 export interface Device {
   id: string;
   serialNo: string;
   nickName: string;
   type: string;
-  status: string;
+  status: DeviceStatus;
   batteryVoltage: number | null;
   location: string | null;
   lastConnectionDate: string | null;
   gsmSignal: number | null;
+  // Property or site the barrier is installed at, set by fleet operators
+  siteName: string | null;
 }
 
+export type AccessPermission = 'VIEW' | 'OPERATE';
+
 export interface UserDevice {
   id: string;
   isFavorite: boolean;
   relationshipType: string;
   status: string;
+  permission: AccessPermission | null;
+  // Account that owns the barrier; only sent for devices shared with this account
+  ownerEmail: string | null;
   device: Device;
 }
 
-// Constants and State
-const API_URL = 'https://api.letsparky.com/api-user';
-
-export let tokens: {
-  accessToken?: string;
-  refreshToken?: string;
-} | null = null;
+// Owners always operate their barriers, guests need the OPERATE permission
+export const canOperate = (userDevice: UserDevice) =>
+  userDevice.relationshipType === 'OWNER' || userDevice.permission === 'OPERATE';
 
-// Error Handler
-const handleApiError = (error: any) => {
-  if (error.response) {
-    const message = error.response.data?.message || 'API error occurred';
-    return new Error(message);
-  }
-  return error;
-};
+export const isOwner = (userDevice: UserDevice) => userDevice.relationshipType === 'OWNER';
 
 // Login process
 export const login = async ({ email, password }: LoginRequest): Promise<LoginResponse> => {
   try {
-    const response = await axios.post(`${API_URL}/auth/credentials`, {
+    const response = await apiClient.post<ApiResponse>(
+      '/auth/credentials',
+      { email, password },
+      { skipAuth: true }
+    );
+
+    const payload = loginPayloadSchema(response.data.payload, '$.payload');
+
+    await startSession({
+      userId: payload.userId,
       email,
-      password,
+      accessToken: payload.accessToken,
+      refreshToken: payload.refreshToken
     });
 
-    tokens = {
-      accessToken: response.data.payload.accessToken,
-      refreshToken: response.data.payload.refreshToken
+    return {
+      userId: payload.userId,
+      accessToken: payload.accessToken,
     };
+  } catch (error) {
+    // Leave any account that is already signed in untouched
+    throw toApiError(error);
+  }
+};
+
+// Refresh token process
+export const refreshTokens = async (): Promise<TokenPair> => {
+  try {
+    await refreshSession();
+    const current = getTokens();
 
     return {
-      userId: response.data.payload.userId,
-      accessToken: response.data.payload.accessToken,
+      accessToken: current?.accessToken ?? '',
+      refreshToken: current?.refreshToken ?? ''
     };
   } catch (error) {
-    tokens = null;
-    throw handleApiError(error);
+    throw toApiError(error);
   }
 };
 
-// Refresh token process
-export const refreshTokens = async (refreshToken: string): Promise<TokenPair> => {
+// Create an account; it stays unusable until the emailed code is verified
+export const register = async ({ name, email, password }: RegisterRequest): Promise<RegisterResponse> => {
+  try {
+    const response = await apiClient.post<ApiResponse>(
+      '/auth/register',
+      { name, email, password },
+      { skipAuth: true }
+    );
+    return registerPayloadSchema(response.data.payload, '$.payload');
+  } catch (error) {
+    throw toApiError(error);
+  }
+};
+
+export const verifyEmail = async (email: string, code: string): Promise<void> => {
   try {
-    const response = await axios.post(
-      `${API_URL}/auth/refresh`,
+    await apiClient.post('/auth/verify-email', { email, code }, { skipAuth: true });
+  } catch (error) {
+    throw toApiError(error);
+  }
+};
+
+export const resendVerificationEmail = async (email: string): Promise<void> => {
+  try {
+    await apiClient.post('/auth/verify-email/resend', { email }, { skipAuth: true });
+  } catch (error) {
+    throw toApiError(error);
+  }
+};
+
+// The server answers the same way whether or not the email is registered
+export const requestPasswordReset = async (email: string): Promise<void> => {
+  try {
+    await apiClient.post('/auth/password-reset', { email }, { skipAuth: true });
+  } catch (error) {
+    throw toApiError(error);
+  }
+};
+
+export const confirmPasswordReset = async ({ email, code, newPassword }: PasswordResetConfirmation): Promise<void> => {
+  try {
+    await apiClient.post('/auth/password-reset/confirm', { email, code, newPassword }, { skipAuth: true });
+  } catch (error) {
+    throw toApiError(error);
+  }
+};
+
+const revokeRefreshToken = async (refreshToken: string) => {
+  try {
+    await apiClient.post(
+      '/auth/logout',
       {},
       {
-        headers: { Authorization: `Bearer ${refreshToken}` }
+        skipAuth: true,
+        headers: { Authorization: `Bearer ${refreshToken}` },
       }
     );
+  } catch (error) {
+    log.warn('Failed to revoke refresh token on logout:', toApiError(error).message);
+  }
+};
 
-    tokens = {
-      accessToken: response.data.payload.accessToken,
-      refreshToken: response.data.payload.refreshToken
-    };
+// Revoke the refresh token on the server, then drop the local session.
+// A failed revoke must not keep the user signed in on this device.
+export const logout = async (): Promise<void> => {
+  const refreshToken = getTokens()?.refreshToken;
+  if (refreshToken) {
+    await revokeRefreshToken(refreshToken);
+  }
+  await endSession();
+};
 
-    return {
-      accessToken: response.data.payload.accessToken,
-      refreshToken: response.data.payload.refreshToken
-    };
+// Sign out an account that is stored on this device but not the active one
+export const removeAccount = async (userId: string): Promise<void> => {
+  const session = await removeSession(userId);
+  if (session) {
+    await revokeRefreshToken(session.refreshToken);
+  }
+};
+
+export const fetchUserDevices = async (): Promise<UserDevice[]> => {
+  try {
+    const response = await apiClient.get<ApiResponse>('/user-device');
+    const { valid, invalid } = validateList(userDeviceSchema, response.data.payload, '$.payload');
+
+    // Skip malformed entries instead of letting one bad device break the list
+    invalid.forEach(issue => log.warn('Skipping device:', issue.message));
+    return valid;
   } catch (error) {
-    tokens = null;
-    throw handleApiError(error);
+    throw toApiError(error);
   }
 };
 
-export const fetchUserDevices = async (accessToken: string): Promise<UserDevice[]> => {
+export type DeviceCommandAction = 'block' | 'unblock';
+
+// Send a single block/unblock command to the barrier
+export const sendDeviceCommand = async (deviceId: string, action: DeviceCommandAction): Promise<void> => {
   try {
-    tokens = { accessToken };
-
-    try {
-      const response = await axios.get<ApiResponse>(`${API_URL}/user-device`, {
-        headers: {
-          Authorization: `Bearer ${tokens.accessToken}`
-        }
-      });
-      return response.data.payload;
-    } catch (error: any) {
-      if (error?.response?.status === 401 && tokens?.refreshToken) {
-        const newTokens = await refreshTokens(tokens.refreshToken);
-        
-        const response = await axios.get<ApiResponse>(`${API_URL}/user-device`, {
-          headers: {
-            Authorization: `Bearer ${newTokens.accessToken}`
-          }
-        });
-        return response.data.payload;
-      }
-      throw handleApiError(error);
-    }
+    log.info(`Sending ${action} to device ${deviceId}`);
+    await apiClient.put(`/tcp-device/${deviceId}/${action}`, {});
+    log.info(`Device ${deviceId} accepted the ${action}`);
+  } catch (error) {
+    log.warn(`Sending ${action} to device ${deviceId} failed:`, error);
+    throw toApiError(error);
+  }
+};
+
+// Toggle entry point kept for callers that only know the current status; sends through sendDeviceCommand
+export const updateDeviceStatus = async (deviceId: string, currentStatus: DeviceStatus): Promise<void> => {
+  await sendDeviceCommand(deviceId, currentStatus.kind === 'blocked' ? 'unblock' : 'block');
+};
+
+// Silence an active alarm on the barrier
+export const acknowledgeAlarm = async (deviceId: string): Promise<void> => {
+  try {
+    await apiClient.put(`/tcp-device/${deviceId}/acknowledge`, {});
   } catch (error) {
-    tokens = null;
-    throw handleApiError(error);
+    throw toApiError(error);
   }
 };
 
-// Function to update device status
-export const updateDeviceStatus = async (
-  deviceId: string, 
-  currentStatus: string,
-  credentials: LoginRequest
-): Promise<void> => {
+// Pin or unpin a device for the current user
+export const setDeviceFavorite = async (userDeviceId: string, isFavorite: boolean): Promise<void> => {
   try {
-    console.log('[updateDeviceStatus] Starting status update for device:', deviceId, 'current status:', currentStatus);
-
-    // Ensure tokens are available. If they're null or expired, call login with the provided credentials.
-    if (!tokens) {
-      console.log('[updateDeviceStatus] No tokens found, logging in...');
-      await login(credentials);
-    }
-
-    const isBlocked = currentStatus === 'BLOCKED';
-    const endpoint = `${API_URL}/tcp-device/${deviceId}/${isBlocked ? 'unblock' : 'block'}`;
-
-    try {
-      console.log('[updateDeviceStatus] Sending request to:', endpoint);
-      await axios.put(
-        endpoint,
-        {},
-        {
-          headers: {
-            Authorization: `Bearer ${tokens?.accessToken}`,
-          },
-        }
-      );
-      console.log('[updateDeviceStatus] Device status updated successfully');
-    } catch (error: any) {
-      console.log('[updateDeviceStatus] Error occurred:', error);
-
-      if (error?.response?.status === 401 && tokens?.refreshToken) {
-        console.log('[updateDeviceStatus] Token expired, refreshing...');
-        await refreshTokens(tokens.refreshToken);
-
-        console.log('[updateDeviceStatus] Retrying status update after token refresh...');
-        await axios.put(
-          endpoint,
-          {},
-          {
-            headers: {
-              Authorization: `Bearer ${tokens?.accessToken}`,
-            },
-          }
-        );
-      } else {
-        throw error;
-      }
-    }
+    await apiClient.patch(`/user-device/${userDeviceId}`, { isFavorite });
+  } catch (error) {
+    throw toApiError(error);
+  }
+};
+
+// Link a new barrier to the account by its serial number
+export const claimDevice = async (serialNo: string): Promise<UserDevice> => {
+  try {
+    const response = await apiClient.post<ApiResponse>('/user-device/claim', { serialNo });
+    return userDeviceSchema(response.data.payload, '$.payload');
   } catch (error) {
-    console.log('[updateDeviceStatus] Final error catch:', error);
-    tokens = null;
-    throw error;
+    throw toApiError(error);
   }
-};
\ No newline at end of file
+};
+
+export const renameDevice = async (deviceId: string, nickName: string): Promise<void> => {
+  try {
+    await apiClient.patch(`/tcp-device/${deviceId}`, { nickName });
+  } catch (error) {
+    throw toApiError(error);
+  }
+};
+
+// Remove the device from this account, the barrier itself is left untouched
+export const unlinkDevice = async (userDeviceId: string): Promise<void> => {
+  try {
+    await apiClient.delete(`/user-device/${userDeviceId}`);
+  } catch (error) {
+    throw toApiError(error);
+  }
+};
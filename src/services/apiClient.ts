@@ -0,0 +1,138 @@
+import axios, { AxiosError, InternalAxiosRequestConfig } from 'axios';
+import { tokenPairSchema } from './validation';
+import { API_URL } from './environment';
+
+declare module 'axios' {
+  interface AxiosRequestConfig {
+    // Skip bearer injection and the 401 refresh flow (auth endpoints)
+    skipAuth?: boolean;
+  }
+}
+
+interface RetriableRequestConfig extends InternalAxiosRequestConfig {
+  _retried?: boolean;
+}
+
+export interface SessionTokens {
+  accessToken: string;
+  refreshToken?: string;
+}
+
+// State
+let tokens: SessionTokens | null = null;
+let refreshPromise: Promise<string> | null = null;
+const sessionExpiredListeners = new Set<() => void>();
+const tokensChangedListeners = new Set<(tokens: SessionTokens | null) => void>();
+
+export const apiClient = axios.create({ baseURL: API_URL });
+
+// Token accessors
+export const getTokens = (): SessionTokens | null => tokens;
+
+export const setTokens = (next: SessionTokens | null) => {
+  tokens = next;
+  tokensChangedListeners.forEach(listener => listener(tokens));
+};
+
+export const clearTokens = () => {
+  setTokens(null);
+};
+
+export const onTokensChanged = (listener: (tokens: SessionTokens | null) => void) => {
+  tokensChangedListeners.add(listener);
+  return () => {
+    tokensChangedListeners.delete(listener);
+  };
+};
+
+// Session expired event, fired when the refresh token itself is rejected
+export const onSessionExpired = (listener: () => void) => {
+  sessionExpiredListeners.add(listener);
+  return () => {
+    sessionExpiredListeners.delete(listener);
+  };
+};
+
+const emitSessionExpired = () => {
+  sessionExpiredListeners.forEach(listener => listener());
+};
+
+// Single-flight refresh: concurrent callers share the same in-flight request
+export const refreshSession = (): Promise<string> => {
+  if (refreshPromise) {
+    return refreshPromise;
+  }
+
+  const refreshToken = tokens?.refreshToken;
+  if (!refreshToken) {
+    clearTokens();
+    emitSessionExpired();
+    return Promise.reject(new Error('No refresh token available'));
+  }
+
+  refreshPromise = apiClient
+    .post(
+      '/auth/refresh',
+      {},
+      {
+        skipAuth: true,
+        headers: { Authorization: `Bearer ${refreshToken}` },
+      }
+    )
+    .then(response => {
+      const pair = tokenPairSchema(response.data?.payload, '$.payload');
+      setTokens(pair);
+      return pair.accessToken;
+    })
+    .catch(error => {
+      // Only a rejection from the server ends the session, not a dropped connection
+      if (error?.response) {
+        clearTokens();
+        emitSessionExpired();
+      }
+      throw error;
+    })
+    .finally(() => {
+      refreshPromise = null;
+    });
+
+  return refreshPromise;
+};
+
+// Attach the bearer token, holding requests back while a refresh is in flight
+apiClient.interceptors.request.use(async config => {
+  if (config.skipAuth) {
+    return config;
+  }
+
+  if (refreshPromise) {
+    await refreshPromise.catch(() => undefined);
+  }
+
+  if (tokens?.accessToken) {
+    config.headers.Authorization = `Bearer ${tokens.accessToken}`;
+  }
+  return config;
+});
+
+// On 401, refresh once and replay the request with the new token
+apiClient.interceptors.response.use(
+  response => response,
+  async (error: AxiosError) => {
+    const config = error.config as RetriableRequestConfig | undefined;
+
+    if (error.response?.status !== 401 || !config || config.skipAuth || config._retried) {
+      throw error;
+    }
+    config._retried = true;
+
+    // Another request may already have refreshed while this one was in flight
+    const sentToken = String(config.headers.Authorization ?? '').replace('Bearer ', '');
+    const accessToken = tokens?.accessToken && tokens.accessToken !== sentToken
+      ? tokens.accessToken
+      : await refreshSession();
+
+    config.headers.Authorization = `Bearer ${accessToken}`;
+    return apiClient(config);
+  }
+);
@@ -0,0 +1,295 @@
+import * as Crypto from 'expo-crypto';
+import * as LocalAuthentication from 'expo-local-authentication';
+import { StorageAdapter, asyncStorage, secureStorage } from './storage';
+import {
+  AppLockSettings,
+  DEFAULT_APP_LOCK_SETTINGS,
+  LockActivity,
+  MAX_PIN_ATTEMPTS,
+  SensitiveAction,
+  describeSensitiveAction,
+  formatLockout,
+  isIdle,
+  isValidPin,
+  pinLockoutDuration,
+  normalizeAppLockSettings,
+  requiresConfirmation,
+} from '../utils/appLock';
+import { createLogger } from './logger';
+
+const log = createLogger('appLock');
+
+// One way of proving the phone is in its owner's hands
+export interface Authenticator {
+  isAvailable: () => Promise<boolean>;
+  // Resolves false when the user cancels or fails
+  authenticate: (reason: string) => Promise<boolean>;
+}
+
+// The PIN screen currently asking for input, rendered by PinPrompt
+export interface PinPromptRequest {
+  reason: string;
+  error: string;
+}
+
+interface StoredPin {
+  salt: string;
+  hash: string;
+}
+
+// Kept in secure storage so closing the prompt or restarting the app does not reset the count
+interface PinFailures {
+  count: number;
+  lockedUntil: number | null;
+}
+
+const SETTINGS_KEY = 'letsparky.appLock';
+const PIN_KEY = 'letsparky.appLockPin';
+const FAILURES_KEY = 'letsparky.appLockFailures';
+const NO_FAILURES: PinFailures = { count: 0, lockedUntil: null };
+
+let settingsStorage: StorageAdapter = asyncStorage;
+let pinStorage: StorageAdapter = secureStorage;
+let settings: AppLockSettings = DEFAULT_APP_LOCK_SETTINGS;
+// Unlocked by the last confirmation until the app sits untouched for the idle period
+let activity: LockActivity = { isUnlocked: false, lastActiveAt: null };
+
+const settingsListeners = new Set<(settings: AppLockSettings) => void>();
+
+let pinPrompt: PinPromptRequest | null = null;
+let failures: PinFailures = NO_FAILURES;
+let resolvePinPrompt: ((verified: boolean) => void) | null = null;
+const pinPromptListeners = new Set<(request: PinPromptRequest | null) => void>();
+
+// Swap the persistence backends (e.g. createMemoryStorage() in tests)
+export const setAppLockStorage = (adapter: StorageAdapter, pinAdapter: StorageAdapter = adapter) => {
+  settingsStorage = adapter;
+  pinStorage = pinAdapter;
+};
+
+export const getAppLockSettings = () => settings;
+
+export const subscribeAppLock = (listener: (settings: AppLockSettings) => void) => {
+  settingsListeners.add(listener);
+  return () => {
+    settingsListeners.delete(listener);
+  };
+};
+
+export const getPinPrompt = () => pinPrompt;
+
+export const subscribePinPrompt = (listener: (request: PinPromptRequest | null) => void) => {
+  pinPromptListeners.add(listener);
+  return () => {
+    pinPromptListeners.delete(listener);
+  };
+};
+
+const setSettings = async (next: AppLockSettings) => {
+  settings = next;
+  settingsListeners.forEach(listener => listener(settings));
+  await settingsStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+const setPinPrompt = (next: PinPromptRequest | null) => {
+  pinPrompt = next;
+  pinPromptListeners.forEach(listener => listener(pinPrompt));
+};
+
+const hashPin = async (pin: string, salt: string) =>
+  Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, `${salt}:${pin}`);
+
+const readPin = async (): Promise<StoredPin | null> => {
+  const raw = await pinStorage.getItem(PIN_KEY);
+  return raw ? JSON.parse(raw) : null;
+};
+
+const storePin = async (pin: string) => {
+  const salt = Crypto.randomUUID();
+  const stored: StoredPin = { salt, hash: await hashPin(pin, salt) };
+  await pinStorage.setItem(PIN_KEY, JSON.stringify(stored));
+};
+
+const setFailures = async (next: PinFailures) => {
+  failures = next;
+  await pinStorage.setItem(FAILURES_KEY, JSON.stringify(failures));
+};
+
+const lockoutMessage = (now: number) =>
+  failures.lockedUntil && failures.lockedUntil > now
+    ? `Too many wrong PINs, try again in ${formatLockout(failures.lockedUntil - now)}`
+    : '';
+
+const finishPinPrompt = (verified: boolean) => {
+  const resolve = resolvePinPrompt;
+  resolvePinPrompt = null;
+  setPinPrompt(null);
+  resolve?.(verified);
+};
+
+// Called by the PIN screen; a wrong PIN keeps the prompt open, and repeated failures lock it for longer each time
+export const submitPin = async (pin: string, now: number = Date.now()) => {
+  const locked = lockoutMessage(now);
+  if (locked) {
+    if (pinPrompt) {
+      setPinPrompt({ ...pinPrompt, error: locked });
+    }
+    return;
+  }
+
+  const stored = await readPin();
+  if (stored && (await hashPin(pin, stored.salt)) === stored.hash) {
+    await setFailures(NO_FAILURES);
+    finishPinPrompt(true);
+    return;
+  }
+
+  const count = failures.count + 1;
+  const lockout = pinLockoutDuration(count);
+  await setFailures({ count, lockedUntil: lockout ? now + lockout : null });
+  if (pinPrompt) {
+    setPinPrompt({
+      ...pinPrompt,
+      error: lockoutMessage(now) || `Wrong PIN, ${MAX_PIN_ATTEMPTS - count} attempt(s) left`,
+    });
+  }
+};
+
+export const cancelPinPrompt = () => finishPinPrompt(false);
+
+export const pinAuthenticator: Authenticator = {
+  isAvailable: async () => Boolean(await readPin()),
+  authenticate: reason => {
+    // A second request while one is showing takes over its prompt; the first one is refused
+    resolvePinPrompt?.(false);
+    return new Promise<boolean>(resolve => {
+      resolvePinPrompt = resolve;
+      setPinPrompt({ reason, error: lockoutMessage(Date.now()) });
+    });
+  },
+};
+
+export const biometricAuthenticator: Authenticator = {
+  isAvailable: async () =>
+    (await LocalAuthentication.hasHardwareAsync()) && (await LocalAuthentication.isEnrolledAsync()),
+  authenticate: async reason => {
+    // The app PIN is the fallback, not the phone passcode
+    const result = await LocalAuthentication.authenticateAsync({
+      promptMessage: reason,
+      cancelLabel: 'Use PIN',
+      disableDeviceFallback: true,
+    });
+    return result.success;
+  },
+};
+
+// Stand-in for tests: answers every prompt with `result` and records the reasons it was asked for
+export const createFakeAuthenticator = (result: boolean | (() => boolean), available = true) => {
+  const reasons: string[] = [];
+  const authenticator: Authenticator & { reasons: string[] } = {
+    reasons,
+    isAvailable: async () => available,
+    authenticate: async reason => {
+      reasons.push(reason);
+      return typeof result === 'function' ? result() : result;
+    },
+  };
+  return authenticator;
+};
+
+let authenticators = { biometric: biometricAuthenticator, pin: pinAuthenticator };
+
+export const setAuthenticators = (next: Partial<typeof authenticators>) => {
+  authenticators = { ...authenticators, ...next };
+};
+
+// Called on every touch; a gap longer than the idle period locks again before this touch counts as activity
+export const recordInteraction = (now: number = Date.now()) => {
+  activity = {
+    isUnlocked: activity.isUnlocked && !isIdle(settings, activity.lastActiveAt, now),
+    lastActiveAt: now,
+  };
+};
+
+// Ask for biometrics first when enabled, then the PIN
+export const verifyUser = async (reason: string, now: number = Date.now()) => {
+  const { biometric, pin } = authenticators;
+  try {
+    const verified =
+      (settings.useBiometrics && (await biometric.isAvailable()) && (await biometric.authenticate(reason))) ||
+      (await pin.authenticate(reason));
+    if (verified) {
+      activity = { isUnlocked: true, lastActiveAt: now };
+    }
+    return verified;
+  } catch (error) {
+    log.error('App lock verification failed:', error);
+    return false;
+  }
+};
+
+// Gate for block/unblock, bulk and schedule changes; resolves true when the action may go ahead
+export const confirmSensitiveAction = async (action: SensitiveAction, now: number = Date.now()) => {
+  if (!requiresConfirmation(settings, action, activity, now)) {
+    recordInteraction(now);
+    return true;
+  }
+  return verifyUser(describeSensitiveAction(action), now);
+};
+
+export const restoreAppLock = async () => {
+  try {
+    const [raw, pin, rawFailures] = await Promise.all([
+      settingsStorage.getItem(SETTINGS_KEY),
+      readPin(),
+      pinStorage.getItem(FAILURES_KEY),
+    ]);
+    failures = rawFailures ? { ...NO_FAILURES, ...JSON.parse(rawFailures) } : NO_FAILURES;
+    const restored = normalizeAppLockSettings(raw ? JSON.parse(raw) : null);
+    // A lock without a PIN could never be answered, so treat it as off
+    settings = { ...restored, enabled: restored.enabled && Boolean(pin) };
+    settingsListeners.forEach(listener => listener(settings));
+  } catch (error) {
+    log.error('Failed to restore app lock settings:', error);
+  }
+};
+
+export const enableAppLock = async (pin: string) => {
+  if (!isValidPin(pin)) {
+    throw new Error('The PIN must be 4 to 8 digits');
+  }
+  await storePin(pin);
+  await setFailures(NO_FAILURES);
+  activity = { isUnlocked: true, lastActiveAt: Date.now() };
+  await setSettings({ ...settings, enabled: true });
+};
+
+// Changing anything about an active lock needs the current PIN or biometrics first
+export const updateAppLockSettings = async (patch: Partial<Omit<AppLockSettings, 'enabled'>>) => {
+  if (settings.enabled && !(await verifyUser('Change the app lock'))) {
+    return false;
+  }
+  await setSettings({ ...settings, ...patch });
+  return true;
+};
+
+export const changePin = async (pin: string) => {
+  if (!isValidPin(pin)) {
+    throw new Error('The PIN must be 4 to 8 digits');
+  }
+  if (!(await verifyUser('Change the app lock PIN'))) {
+    return false;
+  }
+  await storePin(pin);
+  return true;
+};
+
+export const disableAppLock = async () => {
+  if (!(await verifyUser('Turn off the app lock'))) {
+    return false;
+  }
+  await pinStorage.removeItem(PIN_KEY);
+  activity = { isUnlocked: false, lastActiveAt: null };
+  await setSettings({ ...settings, enabled: false });
+  return true;
+};
@@ -0,0 +1,140 @@
+import { DeviceCommandAction, UserDevice, sendDeviceCommand } from './api';
+import { WatchHandle, watchDeviceStatus } from './deviceWatcher';
+import { toApiError } from './errors';
+import { expectedStatusAfter } from '../utils/deviceStatus';
+
+export type BatchItemState =
+  | 'queued'
+  | 'sending'
+  | 'confirming'
+  | 'confirmed'
+  | 'failed'
+  | 'timeout'
+  | 'cancelled';
+
+export interface BatchRequest {
+  deviceId: string;
+  action: DeviceCommandAction;
+}
+
+export interface BatchItem extends BatchRequest {
+  state: BatchItemState;
+  error: string | null;
+  // Server copy once the barrier confirmed the new state
+  device: UserDevice | null;
+}
+
+export interface BatchSummary {
+  confirmed: number;
+  failed: number;
+  timedOut: number;
+  cancelled: number;
+  pending: number;
+}
+
+export interface BatchOptions {
+  // Commands in flight at once; confirmations are watched without a limit
+  concurrency?: number;
+  timeout?: number;
+  onUpdate?: (items: BatchItem[]) => void;
+}
+
+export interface BatchHandle {
+  promise: Promise<BatchItem[]>;
+  cancel: () => void;
+}
+
+const DEFAULT_CONCURRENCY = 3;
+
+const FINISHED_STATES: BatchItemState[] = ['confirmed', 'failed', 'timeout', 'cancelled'];
+
+export const isBatchItemFinished = (item: BatchItem) => FINISHED_STATES.includes(item.state);
+
+export const summarizeBatch = (items: BatchItem[]): BatchSummary => ({
+  confirmed: items.filter(item => item.state === 'confirmed').length,
+  failed: items.filter(item => item.state === 'failed').length,
+  timedOut: items.filter(item => item.state === 'timeout').length,
+  cancelled: items.filter(item => item.state === 'cancelled').length,
+  pending: items.filter(item => !isBatchItemFinished(item)).length,
+});
+
+// What "retry failed" sends again: rejected commands and barriers that never confirmed
+export const retryableItems = (items: BatchItem[]) =>
+  items.filter(item => item.state === 'failed' || item.state === 'timeout');
+
+// Send the commands a few at a time, then wait for every barrier to report its new state.
+// Confirmations go through the device watcher, so all of them share one list poll per tick.
+export const runBatch = (
+  requests: BatchRequest[],
+  { concurrency = DEFAULT_CONCURRENCY, timeout, onUpdate }: BatchOptions = {}
+): BatchHandle => {
+  let items: BatchItem[] = requests.map(request => ({ ...request, state: 'queued', error: null, device: null }));
+  let cancelled = false;
+  let next = 0;
+  const watches = new Set<WatchHandle>();
+  const confirmations: Promise<void>[] = [];
+
+  const update = (index: number, patch: Partial<BatchItem>) => {
+    items = items.map((item, position) => (position === index ? { ...item, ...patch } : item));
+    onUpdate?.(items);
+  };
+
+  // A cancel can land while a command or a watch is awaited, so check again before every step
+  const confirm = async (index: number) => {
+    if (cancelled) {
+      update(index, { state: 'cancelled' });
+      return;
+    }
+    const { deviceId, action } = items[index];
+    const handle = watchDeviceStatus(deviceId, expectedStatusAfter(action), timeout);
+    watches.add(handle);
+    const result = await handle.promise;
+    watches.delete(handle);
+
+    if (result.status === 'reached') {
+      update(index, { state: 'confirmed', device: result.device });
+    } else {
+      update(index, { state: cancelled ? 'cancelled' : result.status });
+    }
+  };
+
+  const worker = async () => {
+    while (!cancelled && next < items.length) {
+      const index = next++;
+      update(index, { state: 'sending' });
+      try {
+        await sendDeviceCommand(items[index].deviceId, items[index].action);
+        if (cancelled) {
+          // Sent, but nobody is waiting for the barrier any more
+          update(index, { state: 'cancelled' });
+          continue;
+        }
+        update(index, { state: 'confirming' });
+        confirmations.push(confirm(index));
+      } catch (error) {
+        update(index, { state: 'failed', error: toApiError(error).message });
+      }
+    }
+  };
+
+  const promise = (async () => {
+    const workers = Array.from({ length: Math.min(concurrency, items.length) }, worker);
+    await Promise.all(workers);
+    await Promise.all(confirmations);
+
+    items.forEach((item, index) => {
+      if (item.state === 'queued') {
+        update(index, { state: 'cancelled' });
+      }
+    });
+    return items;
+  })();
+
+  return {
+    promise,
+    cancel: () => {
+      cancelled = true;
+      watches.forEach(handle => handle.cancel());
+    },
+  };
+};
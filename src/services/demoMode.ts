@@ -0,0 +1,74 @@
+import { AxiosAdapter, AxiosError, AxiosResponse } from 'axios';
+import { apiClient } from './apiClient';
+import { DEMO_MODE_DEFAULT } from './environment';
+import { handleMockRequest, mockLatency, resetMockBackend } from './mockBackend';
+import { StorageAdapter, asyncStorage } from './storage';
+import { createLogger } from './logger';
+
+const log = createLogger('demo');
+
+const DEMO_MODE_KEY = 'letsparky.demoMode';
+
+let storage: StorageAdapter = asyncStorage;
+let isEnabled = false;
+const listeners = new Set<(enabled: boolean) => void>();
+const networkAdapter = apiClient.defaults.adapter;
+
+// Swap the persistence backend (e.g. createMemoryStorage() in tests)
+export const setDemoModeStorage = (adapter: StorageAdapter) => {
+  storage = adapter;
+};
+
+export const isDemoMode = () => isEnabled;
+
+export const subscribeDemoMode = (listener: (enabled: boolean) => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Answer requests from the in-memory backend instead of the network
+export const mockAdapter: AxiosAdapter = async config => {
+  await new Promise(resolve => setTimeout(resolve, mockLatency()));
+
+  const { status, body } = handleMockRequest({
+    method: config.method ?? 'get',
+    path: String(config.url ?? '').replace(config.baseURL ?? '', ''),
+    authorization: String(config.headers?.Authorization ?? ''),
+    body: typeof config.data === 'string' && config.data ? JSON.parse(config.data) : config.data,
+  });
+
+  const response: AxiosResponse = { data: body, status, statusText: String(status), headers: {}, config };
+  if (status >= 400) {
+    const code = status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST;
+    throw new AxiosError(`Request failed with status code ${status}`, code, config, null, response);
+  }
+  return response;
+};
+
+const apply = (enabled: boolean) => {
+  isEnabled = enabled;
+  apiClient.defaults.adapter = enabled ? mockAdapter : networkAdapter;
+  listeners.forEach(listener => listener(enabled));
+};
+
+// Pick up the saved choice before anything talks to the API
+export const restoreDemoMode = async () => {
+  try {
+    const saved = await storage.getItem(DEMO_MODE_KEY);
+    apply(saved === null ? DEMO_MODE_DEFAULT : saved === 'true');
+  } catch (error) {
+    log.error('Failed to restore demo mode:', error);
+    apply(DEMO_MODE_DEFAULT);
+  }
+};
+
+// Only switch while logged out, a session never spans both backends
+export const setDemoMode = async (enabled: boolean) => {
+  if (enabled && !isEnabled) {
+    resetMockBackend();
+  }
+  apply(enabled);
+  await storage.setItem(DEMO_MODE_KEY, String(enabled));
+};
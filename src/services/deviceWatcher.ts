@@ -0,0 +1,123 @@
+import { UserDevice, fetchUserDevices } from './api';
+import { DeviceStatusKind } from '../utils/deviceStatus';
+import { createLogger } from './logger';
+
+const log = createLogger('watcher');
+
+export type WatchResult =
+  | { status: 'reached'; device: UserDevice }
+  | { status: 'timeout' }
+  | { status: 'cancelled' };
+
+export interface WatchHandle {
+  promise: Promise<WatchResult>;
+  cancel: () => void;
+}
+
+interface Watch {
+  deviceId: string;
+  predicate: (device: UserDevice) => boolean;
+  deadline: number;
+  resolve: (result: WatchResult) => void;
+}
+
+const DEFAULT_TIMEOUT = 20000;
+const MIN_INTERVAL = 1000;
+const MAX_INTERVAL = 5000;
+const BACKOFF_FACTOR = 1.5;
+
+const watches = new Set<Watch>();
+let interval = MIN_INTERVAL;
+let timer: ReturnType<typeof setTimeout> | null = null;
+let isPolling = false;
+
+const settle = (watch: Watch, result: WatchResult) => {
+  if (watches.delete(watch)) {
+    watch.resolve(result);
+  }
+  if (!watches.size && timer) {
+    clearTimeout(timer);
+    timer = null;
+  }
+};
+
+const schedule = () => {
+  if (timer || isPolling || !watches.size) {
+    return;
+  }
+
+  // Wake up early if a watch is about to time out
+  const earliestDeadline = Math.min(...[...watches].map(watch => watch.deadline));
+  const delay = Math.max(0, Math.min(interval, earliestDeadline - Date.now()));
+  timer = setTimeout(tick, delay);
+};
+
+// One list fetch per tick, shared by every device being watched
+const tick = async () => {
+  timer = null;
+  if (!watches.size) {
+    return;
+  }
+
+  isPolling = true;
+  try {
+    const devices = await fetchUserDevices();
+    watches.forEach(watch => {
+      const match = devices.find(d => d.device.id === watch.deviceId);
+      if (match && watch.predicate(match)) {
+        settle(watch, { status: 'reached', device: match });
+      }
+    });
+    interval = Math.min(interval * BACKOFF_FACTOR, MAX_INTERVAL);
+  } catch (error) {
+    log.error('Error polling device status:', error);
+    interval = Math.min(interval * 2, MAX_INTERVAL);
+  } finally {
+    isPolling = false;
+  }
+
+  const now = Date.now();
+  watches.forEach(watch => {
+    if (watch.deadline <= now) {
+      settle(watch, { status: 'timeout' });
+    }
+  });
+  schedule();
+};
+
+// Resolve once the device satisfies the predicate, or when the timeout expires
+export const watchDevice = (
+  deviceId: string,
+  predicate: (device: UserDevice) => boolean,
+  timeout: number = DEFAULT_TIMEOUT
+): WatchHandle => {
+  let watch!: Watch;
+  const promise = new Promise<WatchResult>(resolve => {
+    watch = { deviceId, predicate, deadline: Date.now() + timeout, resolve };
+  });
+
+  watches.add(watch);
+  // A fresh command is most likely to settle soon, poll eagerly again
+  interval = MIN_INTERVAL;
+  if (timer) {
+    clearTimeout(timer);
+    timer = null;
+  }
+  schedule();
+
+  return {
+    promise,
+    cancel: () => settle(watch, { status: 'cancelled' }),
+  };
+};
+
+// Resolve once the device reports expectedStatus, or when the timeout expires
+export const watchDeviceStatus = (
+  deviceId: string,
+  expectedStatus: DeviceStatusKind,
+  timeout?: number
+): WatchHandle => watchDevice(deviceId, match => match.device.status.kind === expectedStatus, timeout);
+
+export const cancelAllWatches = () => {
+  [...watches].forEach(watch => settle(watch, { status: 'cancelled' }));
+};
@@ -0,0 +1,88 @@
+import * as Application from 'expo-application';
+import Constants from 'expo-constants';
+import * as Device from 'expo-device';
+import type { UserDevice } from './api';
+import { isDemoMode } from './demoMode';
+import { API_URL, APP_ENV } from './environment';
+import { shareTextFile } from './fileExport';
+import { LogEntry, formatLogEntry, getLogEntries } from './logger';
+import { OutboxCommand, getPendingCommands } from './outbox';
+import { redactText } from '../utils/redact';
+
+export interface DiagnosticsInfo {
+  appVersion: string;
+  buildVersion: string;
+  sdkVersion: string;
+  environment: string;
+  apiUrl: string;
+  demoMode: boolean;
+  phone: string;
+  os: string;
+  userId: string | null;
+}
+
+const orUnknown = (value: string | null | undefined) => value || 'unknown';
+
+export const collectDiagnosticsInfo = (userId: string | null): DiagnosticsInfo => ({
+  appVersion: orUnknown(Application.nativeApplicationVersion ?? Constants.expoConfig?.version),
+  buildVersion: orUnknown(Application.nativeBuildVersion),
+  sdkVersion: orUnknown(Constants.expoConfig?.sdkVersion),
+  environment: APP_ENV,
+  apiUrl: API_URL,
+  demoMode: isDemoMode(),
+  phone: `${orUnknown(Device.manufacturer)} ${orUnknown(Device.modelName)}${Device.isDevice ? '' : ' (simulator)'}`,
+  os: `${orUnknown(Device.osName)} ${orUnknown(Device.osVersion)}`,
+  userId,
+});
+
+// Only what support needs to recognise a barrier; nicknames and locations stay on the phone
+const describeDevice = ({ device, relationshipType, permission }: UserDevice) =>
+  [
+    `${device.serialNo} (${device.id})`,
+    device.type,
+    `status ${device.status.raw}`,
+    `battery ${device.batteryVoltage ?? '-'} V`,
+    `signal ${device.gsmSignal ?? '-'}`,
+    `last seen ${device.lastConnectionDate ?? 'never'}`,
+    `${relationshipType}${permission ? `/${permission}` : ''}`,
+  ].join(' · ');
+
+const describeCommand = (command: OutboxCommand) =>
+  `${command.action} ${command.deviceId}, queued ${new Date(command.createdAt).toISOString()}, ${command.attempts} attempt(s)`;
+
+// Plain text report for support tickets; run through the redactor once more as a last line of defence
+export const formatDiagnosticsReport = (
+  info: DiagnosticsInfo,
+  devices: UserDevice[],
+  pendingCommands: OutboxCommand[],
+  entries: LogEntry[],
+  now: Date = new Date()
+) => {
+  const sections = [
+    [
+      'LetsParky diagnostics',
+      `Generated: ${now.toISOString()}`,
+      `App: ${info.appVersion} (build ${info.buildVersion}, Expo SDK ${info.sdkVersion})`,
+      `Environment: ${info.environment}${info.demoMode ? ' (demo mode)' : ''}, ${info.apiUrl}`,
+      `Phone: ${info.phone}, ${info.os}`,
+      `User: ${info.userId ?? 'signed out'}`,
+    ],
+    [`Devices (${devices.length})`, ...devices.map(describeDevice)],
+    [`Pending commands (${pendingCommands.length})`, ...pendingCommands.map(describeCommand)],
+    [`Log (${entries.length} entries)`, ...entries.map(formatLogEntry)],
+  ];
+  return redactText(sections.map(lines => lines.join('\n')).join('\n\n'));
+};
+
+export const exportDiagnostics = async (userId: string | null, devices: UserDevice[]) => {
+  const now = new Date();
+  const report = formatDiagnosticsReport(
+    collectDiagnosticsInfo(userId),
+    devices,
+    getPendingCommands(),
+    getLogEntries(),
+    now
+  );
+  const stamp = now.toISOString().slice(0, 19).replace(/[:T]/g, '-');
+  await shareTextFile(`letsparky-diagnostics-${stamp}.txt`, report, 'text/plain');
+};
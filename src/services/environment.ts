@@ -0,0 +1,22 @@
+// Build-time configuration, read from EXPO_PUBLIC_* variables (see `.env` handling in Expo)
+//
+//   EXPO_PUBLIC_APP_ENV=development npm start
+//   EXPO_PUBLIC_API_URL=http://<your-lan-ip>:3000/api-user npm start
+//   EXPO_PUBLIC_DEMO_MODE=1 npm start
+
+export type AppEnvironment = 'production' | 'development';
+
+const API_URLS: Record<AppEnvironment, string> = {
+  production: 'https://api.letsparky.com/api-user',
+  // A backend running on the same machine as the simulator
+  development: 'http://localhost:3000/api-user',
+};
+
+export const APP_ENV: AppEnvironment =
+  process.env.EXPO_PUBLIC_APP_ENV === 'development' ? 'development' : 'production';
+
+// An explicit URL wins over the environment default, e.g. for a LAN address on a phone
+export const API_URL = process.env.EXPO_PUBLIC_API_URL || API_URLS[APP_ENV];
+
+// Start in demo mode until the user turns it off on the login screen
+export const DEMO_MODE_DEFAULT = process.env.EXPO_PUBLIC_DEMO_MODE === '1';
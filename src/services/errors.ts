@@ -0,0 +1,169 @@
+import { isAxiosError } from 'axios';
+
+interface ApiErrorOptions {
+  status?: number;
+  code?: string;
+  cause?: unknown;
+}
+
+// Base class for every failure surfaced by the API layer
+export class ApiError extends Error {
+  status?: number;
+  code?: string;
+  cause?: unknown;
+
+  constructor(message: string, { status, code, cause }: ApiErrorOptions = {}) {
+    super(message);
+    // Keep instanceof working when classes are transpiled
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = 'ApiError';
+    this.status = status;
+    this.code = code;
+    this.cause = cause;
+  }
+}
+
+export class UnauthorizedError extends ApiError {
+  constructor(message: string, options?: ApiErrorOptions) {
+    super(message, options);
+    this.name = 'UnauthorizedError';
+  }
+}
+
+export class RateLimitedError extends ApiError {
+  // Seconds the server asked us to wait, when it told us
+  retryAfter: number | null;
+
+  constructor(message: string, retryAfter: number | null, options?: ApiErrorOptions) {
+    super(message, options);
+    this.name = 'RateLimitedError';
+    this.retryAfter = retryAfter;
+  }
+}
+
+export class NetworkError extends ApiError {
+  constructor(message: string, options?: ApiErrorOptions) {
+    super(message, options);
+    this.name = 'NetworkError';
+  }
+}
+
+export class TimeoutError extends ApiError {
+  constructor(message: string, options?: ApiErrorOptions) {
+    super(message, options);
+    this.name = 'TimeoutError';
+  }
+}
+
+export class ValidationError extends ApiError {
+  constructor(message: string, options?: ApiErrorOptions) {
+    super(message, options);
+    this.name = 'ValidationError';
+  }
+}
+
+export class AccountLockedError extends ApiError {
+  constructor(message: string, options?: ApiErrorOptions) {
+    super(message, options);
+    this.name = 'AccountLockedError';
+  }
+}
+
+export class ServerError extends ApiError {
+  constructor(message: string, options?: ApiErrorOptions) {
+    super(message, options);
+    this.name = 'ServerError';
+  }
+}
+
+// A response payload did not match the shape the app expects
+export class SchemaValidationError extends ApiError {
+  path: string;
+
+  constructor(path: string, expected: string, received: unknown) {
+    const actual = received === null ? 'null' : Array.isArray(received) ? 'array' : typeof received;
+    super(`Invalid response at "${path}": expected ${expected}, received ${actual}`, { code: 'INVALID_PAYLOAD' });
+    this.name = 'SchemaValidationError';
+    this.path = path;
+  }
+}
+
+const TIMEOUT_CODES = ['ECONNABORTED', 'ETIMEDOUT'];
+
+// Retry-After is either delta-seconds or an HTTP date
+const parseRetryAfter = (value: unknown): number | null => {
+  if (value === undefined || value === null || value === '') {
+    return null;
+  }
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds);
+  }
+
+  const date = Date.parse(String(value));
+  if (Number.isNaN(date)) {
+    return null;
+  }
+  return Math.max(0, Math.ceil((date - Date.now()) / 1000));
+};
+
+// The backend may send a single message or a list of validation messages
+const envelopeMessage = (data: any): string | undefined => {
+  if (Array.isArray(data?.message)) {
+    return data.message.join(', ');
+  }
+  return typeof data?.message === 'string' ? data.message : undefined;
+};
+
+// Normalize anything thrown by axios (or our own code) into an ApiError
+export const toApiError = (error: unknown): ApiError => {
+  if (error instanceof ApiError) {
+    return error;
+  }
+
+  if (!isAxiosError(error)) {
+    const message = error instanceof Error ? error.message : 'Unexpected error occurred';
+    return new ApiError(message, { cause: error });
+  }
+
+  const code = error.code;
+
+  if (code && TIMEOUT_CODES.includes(code)) {
+    return new TimeoutError('Request timed out', { code, cause: error });
+  }
+
+  if (!error.response) {
+    return new NetworkError('Network request failed', { code, cause: error });
+  }
+
+  const data: any = error.response.data;
+  const status = error.response.status || data?.statusCode;
+  const message = envelopeMessage(data) || error.message || 'API error occurred';
+  const options = { status, code, cause: error };
+
+  switch (status) {
+    case 400:
+    case 422:
+      return new ValidationError(message, options);
+    case 401:
+      return new UnauthorizedError(message, options);
+    case 408:
+      return new TimeoutError(message, options);
+    case 423:
+      return new AccountLockedError(message, options);
+    case 429:
+      return new RateLimitedError(message, parseRetryAfter(error.response.headers?.['retry-after']), options);
+  }
+
+  // Some endpoints report a locked account as 403 with an explanatory message
+  if (status === 403 && /locked/i.test(message)) {
+    return new AccountLockedError(message, options);
+  }
+
+  if (status >= 500) {
+    return new ServerError(message, options);
+  }
+
+  return new ApiError(message, options);
+};
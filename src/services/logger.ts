@@ -0,0 +1,91 @@
+import { redactText, redactValue } from '../utils/redact';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export interface LogEntry {
+  time: number;
+  level: LogLevel;
+  // Subsystem that wrote the entry, e.g. "api" or "outbox"
+  tag: string;
+  // Already redacted, safe to show or export as is
+  message: string;
+}
+
+export interface Logger {
+  debug: (message: string, ...details: unknown[]) => void;
+  info: (message: string, ...details: unknown[]) => void;
+  warn: (message: string, ...details: unknown[]) => void;
+  error: (message: string, ...details: unknown[]) => void;
+}
+
+// Where entries go besides the ring buffer; the console by default, silenced in tests
+export type LogSink = (entry: LogEntry) => void;
+
+const LEVEL_ORDER: Record<LogLevel, number> = { debug: 0, info: 1, warn: 2, error: 3 };
+
+// Enough for the last few minutes of activity without holding on to much memory
+const DEFAULT_CAPACITY = 500;
+
+const consoleSink: LogSink = entry => {
+  const line = `[${entry.tag}] ${entry.message}`;
+  switch (entry.level) {
+    case 'error':
+      console.error(line);
+      break;
+    case 'warn':
+      console.warn(line);
+      break;
+    default:
+      console.log(line);
+  }
+};
+
+let minimumLevel: LogLevel = __DEV__ ? 'debug' : 'info';
+let capacity = DEFAULT_CAPACITY;
+let entries: LogEntry[] = [];
+let sink: LogSink | null = __DEV__ ? consoleSink : null;
+
+export const setLogLevel = (level: LogLevel) => {
+  minimumLevel = level;
+};
+
+export const setLogSink = (next: LogSink | null) => {
+  sink = next;
+};
+
+export const setLogCapacity = (next: number) => {
+  capacity = Math.max(1, next);
+  entries = entries.slice(-capacity);
+};
+
+// Oldest first
+export const getLogEntries = () => entries;
+
+export const clearLog = () => {
+  entries = [];
+};
+
+const write = (level: LogLevel, tag: string, message: string, details: unknown[]) => {
+  if (LEVEL_ORDER[level] < LEVEL_ORDER[minimumLevel]) {
+    return;
+  }
+  const entry: LogEntry = {
+    time: Date.now(),
+    level,
+    tag,
+    message: [redactText(message), ...details.map(redactValue)].join(' '),
+  };
+  entries = entries.length >= capacity ? [...entries.slice(entries.length - capacity + 1), entry] : [...entries, entry];
+  sink?.(entry);
+};
+
+// One per subsystem, created at module level: const log = createLogger('outbox')
+export const createLogger = (tag: string): Logger => ({
+  debug: (message, ...details) => write('debug', tag, message, details),
+  info: (message, ...details) => write('info', tag, message, details),
+  warn: (message, ...details) => write('warn', tag, message, details),
+  error: (message, ...details) => write('error', tag, message, details),
+});
+
+export const formatLogEntry = (entry: LogEntry) =>
+  `${new Date(entry.time).toISOString()} ${entry.level.toUpperCase().padEnd(5)} [${entry.tag}] ${entry.message}`;
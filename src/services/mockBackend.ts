@@ -0,0 +1,246 @@
+// In-memory stand-in for the LetsParky backend, used by demo mode.
+// Routes and envelopes follow the real API closely enough for the app's validators.
+
+export interface MockRequest {
+  method: string;
+  path: string;
+  authorization: string;
+  body: any;
+}
+
+export interface MockResponse {
+  status: number;
+  body: unknown;
+}
+
+interface MockDevice {
+  id: string;
+  serialNo: string;
+  nickName: string;
+  type: string;
+  status: string;
+  batteryVoltage: number | null;
+  location: string | null;
+  lastConnectionDate: string | null;
+  gsmSignal: number | null;
+  siteName: string | null;
+  // Set while the barrier is moving; the status settles once completesAt has passed
+  transition: { target: 'BLOCKED' | 'UNBLOCKED'; completesAt: number } | null;
+}
+
+interface MockUserDevice {
+  id: string;
+  isFavorite: boolean;
+  relationshipType: string;
+  status: string;
+  permission: 'VIEW' | 'OPERATE' | null;
+  ownerEmail: string | null;
+  deviceId: string;
+}
+
+export const DEMO_EMAIL = 'demo@letsparky.com';
+export const DEMO_PASSWORD = 'demo1234';
+const DEMO_USER_ID = 'demo-user';
+
+const ACCESS_TOKEN_TTL = 2 * 60 * 1000;
+const REFRESH_TOKEN_TTL = 7 * 24 * 60 * 60 * 1000;
+const MOVE_DURATION = 4000;
+const MIN_LATENCY = 150;
+const MAX_LATENCY = 700;
+
+const createDevices = (now: number): MockDevice[] => {
+  const seen = (minutesAgo: number) => new Date(now - minutesAgo * 60 * 1000).toISOString();
+  return [
+    {
+      id: 'demo-device-1', serialNo: 'LPB100001', nickName: 'Home', type: 'BOUNCER', status: 'BLOCKED',
+      batteryVoltage: 12.6, location: '41.0422,29.0083', lastConnectionDate: seen(1), gsmSignal: 4,
+      siteName: 'Levent Residences', transition: null,
+    },
+    {
+      id: 'demo-device-2', serialNo: 'LPB100002', nickName: 'Office', type: 'BOUNCER', status: 'UNBLOCKED',
+      batteryVoltage: 11.7, location: '41.0766,29.0150', lastConnectionDate: seen(3), gsmSignal: 1,
+      siteName: 'Maslak Plaza', transition: null,
+    },
+    {
+      id: 'demo-device-3', serialNo: 'LPB100003', nickName: 'Visitor spot', type: 'BOUNCER', status: 'IN_USE',
+      batteryVoltage: 12.3, location: '41.0370,28.9850', lastConnectionDate: seen(2), gsmSignal: 3,
+      siteName: 'Maslak Plaza', transition: null,
+    },
+    {
+      id: 'demo-device-4', serialNo: 'LPB100004', nickName: 'Summer house', type: 'BOUNCER', status: 'OFFLINE',
+      batteryVoltage: 11.4, location: '40.9780,27.5110', lastConnectionDate: seen(60 * 5), gsmSignal: null,
+      siteName: null, transition: null,
+    },
+  ];
+};
+
+const createUserDevices = (): MockUserDevice[] => [
+  { id: 'demo-link-1', isFavorite: true, relationshipType: 'OWNER', status: 'ACTIVE', permission: null, ownerEmail: null, deviceId: 'demo-device-1' },
+  { id: 'demo-link-2', isFavorite: false, relationshipType: 'OWNER', status: 'ACTIVE', permission: null, ownerEmail: null, deviceId: 'demo-device-2' },
+  {
+    id: 'demo-link-3', isFavorite: false, relationshipType: 'GUEST', status: 'ACTIVE', permission: 'OPERATE',
+    ownerEmail: 'facilities@maslakplaza.example', deviceId: 'demo-device-3',
+  },
+  {
+    id: 'demo-link-4', isFavorite: false, relationshipType: 'GUEST', status: 'ACTIVE', permission: 'VIEW',
+    ownerEmail: 'family@example.com', deviceId: 'demo-device-4',
+  },
+];
+
+let devices = createDevices(Date.now());
+let userDevices = createUserDevices();
+const revokedRefreshTokens = new Set<string>();
+let tokenSeq = 0;
+
+// Put every barrier back to its initial state, e.g. when demo mode is switched on
+export const resetMockBackend = (now: number = Date.now()) => {
+  devices = createDevices(now);
+  userDevices = createUserDevices();
+  revokedRefreshTokens.clear();
+};
+
+export const mockLatency = () => MIN_LATENCY + Math.random() * (MAX_LATENCY - MIN_LATENCY);
+
+// Tokens carry their own expiry, so a persisted demo session survives an app restart
+const issueToken = (kind: 'access' | 'refresh', now: number) =>
+  `mock-${kind}.${DEMO_USER_ID}.${now + (kind === 'access' ? ACCESS_TOKEN_TTL : REFRESH_TOKEN_TTL)}.${++tokenSeq}`;
+
+const isTokenValid = (token: string, kind: 'access' | 'refresh', now: number) => {
+  const [prefix, userId, expiresAt] = token.split('.');
+  return prefix === `mock-${kind}` && userId === DEMO_USER_ID && Number(expiresAt) > now;
+};
+
+const bearer = (authorization: string) => authorization.replace(/^Bearer\s+/i, '');
+
+const ok = (payload: unknown = null, message = 'OK'): MockResponse => ({
+  status: 200,
+  body: { statusCode: 200, message, payload },
+});
+
+const fail = (status: number, message: string): MockResponse => ({
+  status,
+  body: { statusCode: status, message, payload: null },
+});
+
+// Finish any movement whose time is up
+const settleDevice = (device: MockDevice, now: number) => {
+  if (device.transition && device.transition.completesAt <= now) {
+    device.status = device.transition.target;
+    device.transition = null;
+  }
+  if (device.status !== 'OFFLINE') {
+    device.lastConnectionDate = new Date(now).toISOString();
+  }
+};
+
+const serializeUserDevice = ({ deviceId, ...userDevice }: MockUserDevice, now: number) => {
+  const device = devices.find(item => item.id === deviceId)!;
+  settleDevice(device, now);
+  const { transition: _transition, ...publicDevice } = device;
+  return { ...userDevice, device: publicDevice };
+};
+
+const findUserDevice = (deviceId: string) => userDevices.find(item => item.deviceId === deviceId);
+
+const handleCommand = (deviceId: string, action: string, now: number): MockResponse => {
+  const userDevice = findUserDevice(deviceId);
+  const device = devices.find(item => item.id === deviceId);
+  if (!userDevice || !device) {
+    return fail(404, 'Device not found');
+  }
+  if (userDevice.relationshipType !== 'OWNER' && userDevice.permission !== 'OPERATE') {
+    return fail(403, 'You are not allowed to operate this device');
+  }
+
+  settleDevice(device, now);
+  if (action === 'acknowledge') {
+    if (device.status === 'ALARM') {
+      device.status = 'BLOCKED';
+    }
+    return ok();
+  }
+
+  switch (device.status) {
+    case 'OFFLINE':
+      return fail(409, 'Device is offline');
+    case 'IN_USE':
+      return fail(409, 'A vehicle is on the barrier');
+    case 'ALARM':
+      return fail(409, 'Acknowledge the alarm first');
+  }
+
+  const target = action === 'block' ? 'BLOCKED' : 'UNBLOCKED';
+  if (device.status === target || device.transition?.target === target) {
+    return ok();
+  }
+  device.status = action === 'block' ? 'BLOCKING' : 'UNBLOCKING';
+  device.transition = { target, completesAt: now + MOVE_DURATION };
+  return ok();
+};
+
+// Route a request the way the real backend would, including auth checks
+export const handleMockRequest = (
+  { method, path, authorization, body }: MockRequest,
+  now: number = Date.now()
+): MockResponse => {
+  const route = `${method.toUpperCase()} ${path.split('?')[0].replace(/\/+$/, '')}`;
+
+  if (route === 'POST /auth/credentials') {
+    if (body?.email?.toLowerCase() !== DEMO_EMAIL || body?.password !== DEMO_PASSWORD) {
+      return fail(401, 'Invalid email or password');
+    }
+    return ok({
+      userId: DEMO_USER_ID,
+      accessToken: issueToken('access', now),
+      refreshToken: issueToken('refresh', now),
+    });
+  }
+
+  if (route === 'POST /auth/refresh') {
+    const refreshToken = bearer(authorization);
+    if (!isTokenValid(refreshToken, 'refresh', now) || revokedRefreshTokens.has(refreshToken)) {
+      return fail(401, 'Refresh token expired');
+    }
+    return ok({ accessToken: issueToken('access', now), refreshToken: issueToken('refresh', now) });
+  }
+
+  if (route === 'POST /auth/logout') {
+    revokedRefreshTokens.add(bearer(authorization));
+    return ok();
+  }
+
+  if (!isTokenValid(bearer(authorization), 'access', now)) {
+    return fail(401, 'Access token expired');
+  }
+
+  if (route === 'GET /user-device') {
+    return ok(userDevices.map(userDevice => serializeUserDevice(userDevice, now)));
+  }
+
+  const command = route.match(/^PUT \/tcp-device\/([^/]+)\/(block|unblock|acknowledge)$/);
+  if (command) {
+    return handleCommand(command[1], command[2], now);
+  }
+
+  const favorite = route.match(/^PATCH \/user-device\/([^/]+)$/);
+  if (favorite) {
+    const userDevice = userDevices.find(item => item.id === favorite[1]);
+    if (!userDevice) {
+      return fail(404, 'Device not found');
+    }
+    userDevice.isFavorite = Boolean(body?.isFavorite);
+    return ok();
+  }
+
+  const rename = route.match(/^PATCH \/tcp-device\/([^/]+)$/);
+  if (rename) {
+    const device = devices.find(item => item.id === rename[1]);
+    if (!device || findUserDevice(device.id)?.relationshipType !== 'OWNER') {
+      return fail(404, 'Device not found');
+    }
+    device.nickName = String(body?.nickName ?? device.nickName);
+    return ok();
+  }
+
+  return fail(404, `${route} is not available in demo mode`);
+};
@@ -0,0 +1,257 @@
+import NetInfo from '@react-native-community/netinfo';
+import { DeviceCommandAction, sendDeviceCommand } from './api';
+import { ApiError, NetworkError, RateLimitedError, ServerError, TimeoutError, toApiError } from './errors';
+import { StorageAdapter, asyncStorage } from './storage';
+import { getSessionUserId } from './session';
+import { createLogger } from './logger';
+
+const log = createLogger('outbox');
+
+export interface OutboxCommand {
+  id: string;
+  // Account that queued the command; it is only sent while that account is active
+  userId: string | null;
+  deviceId: string;
+  action: DeviceCommandAction;
+  createdAt: number;
+  attempts: number;
+  nextAttemptAt: number;
+}
+
+export type OutboxEvent =
+  | { type: 'confirmed'; command: OutboxCommand }
+  | { type: 'failed'; command: OutboxCommand; error: ApiError };
+
+export type EnqueueResult = 'queued' | 'duplicate' | 'cancelled';
+
+const OUTBOX_KEY = 'letsparky.outbox';
+const BASE_RETRY_DELAY = 2000;
+const MAX_RETRY_DELAY = 5 * 60 * 1000;
+// A barrier moving long after the user gave up on it is worse than not moving
+const MAX_COMMAND_AGE = 60 * 60 * 1000;
+
+let storage: StorageAdapter = asyncStorage;
+let commands: OutboxCommand[] = [];
+let inFlightId: string | null = null;
+let isOnline = true;
+let isFlushing = false;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+const commandsListeners = new Set<(commands: OutboxCommand[]) => void>();
+const eventListeners = new Set<(event: OutboxEvent) => void>();
+
+// Swap the persistence backend (e.g. createMemoryStorage() in tests)
+export const setOutboxStorage = (adapter: StorageAdapter) => {
+  storage = adapter;
+};
+
+export const getPendingCommands = () => commands;
+
+export const getPendingCommand = (deviceId: string) =>
+  commands.find(command => command.deviceId === deviceId && isForActiveAccount(command));
+
+// The command being sent right now can no longer be cancelled by queueing its opposite
+export const isCommandInFlight = (command: OutboxCommand) => command.id === inFlightId;
+
+export const subscribeOutbox = (listener: (commands: OutboxCommand[]) => void) => {
+  commandsListeners.add(listener);
+  return () => {
+    commandsListeners.delete(listener);
+  };
+};
+
+export const onOutboxEvent = (listener: (event: OutboxEvent) => void) => {
+  eventListeners.add(listener);
+  return () => {
+    eventListeners.delete(listener);
+  };
+};
+
+const setCommands = (next: OutboxCommand[]) => {
+  commands = next;
+  commandsListeners.forEach(listener => listener(commands));
+  storage.setItem(OUTBOX_KEY, JSON.stringify(commands))
+    .catch(error => log.error('Failed to persist outbox:', error));
+};
+
+// Subscribers re-render on the array's identity, so hand them a fresh one; nothing changes on disk
+const setInFlight = (id: string | null) => {
+  inFlightId = id;
+  commands = [...commands];
+  commandsListeners.forEach(listener => listener(commands));
+};
+
+const emit = (event: OutboxEvent) => {
+  eventListeners.forEach(listener => listener(event));
+};
+
+// Commands queued before accounts were tracked belong to whoever is signed in
+const isForActiveAccount = (command: OutboxCommand) =>
+  !command.userId || command.userId === getSessionUserId();
+
+const retryDelay = (attempts: number) =>
+  Math.min(BASE_RETRY_DELAY * 2 ** (attempts - 1), MAX_RETRY_DELAY);
+
+const isRetryable = (error: ApiError) =>
+  error instanceof NetworkError ||
+  error instanceof TimeoutError ||
+  error instanceof ServerError ||
+  error instanceof RateLimitedError;
+
+// Queue a command, collapsing it with any pending command for the same device
+export const enqueueCommand = (deviceId: string, action: DeviceCommandAction): EnqueueResult => {
+  const pending = commands.find(command =>
+    command.deviceId === deviceId && command.id !== inFlightId && isForActiveAccount(command)
+  );
+
+  if (pending?.action === action) {
+    return 'duplicate';
+  }
+
+  if (pending) {
+    // block followed by unblock (or the reverse) is a no-op
+    setCommands(commands.filter(command => command.id !== pending.id));
+    return 'cancelled';
+  }
+
+  const now = Date.now();
+  setCommands([
+    ...commands,
+    {
+      id: `${deviceId}-${now}`,
+      userId: getSessionUserId(),
+      deviceId,
+      action,
+      createdAt: now,
+      attempts: 0,
+      nextAttemptAt: now,
+    },
+  ]);
+  flushOutbox();
+  return 'queued';
+};
+
+const scheduleRetry = () => {
+  if (retryTimer) {
+    clearTimeout(retryTimer);
+    retryTimer = null;
+  }
+  const runnable = commands.filter(isForActiveAccount);
+  if (!runnable.length || !isOnline) {
+    return;
+  }
+
+  const nextAttemptAt = Math.min(...runnable.map(command => command.nextAttemptAt));
+  retryTimer = setTimeout(() => {
+    retryTimer = null;
+    flushOutbox();
+  }, Math.max(0, nextAttemptAt - Date.now()));
+};
+
+// Send every command that is due, in the order they were queued
+export const flushOutbox = async () => {
+  if (isFlushing || !isOnline) {
+    return;
+  }
+  isFlushing = true;
+
+  try {
+    for (const command of commands) {
+      const now = Date.now();
+      if (
+        command.nextAttemptAt > now ||
+        !isForActiveAccount(command) ||
+        !commands.some(queued => queued.id === command.id)
+      ) {
+        continue;
+      }
+
+      if (now - command.createdAt > MAX_COMMAND_AGE) {
+        setCommands(commands.filter(queued => queued.id !== command.id));
+        emit({ type: 'failed', command, error: new ApiError('Command expired before it could be sent') });
+        continue;
+      }
+
+      setInFlight(command.id);
+      try {
+        await sendDeviceCommand(command.deviceId, command.action);
+        setCommands(commands.filter(queued => queued.id !== command.id));
+        emit({ type: 'confirmed', command });
+      } catch (err) {
+        const error = toApiError(err);
+
+        if (!isRetryable(error)) {
+          setCommands(commands.filter(queued => queued.id !== command.id));
+          emit({ type: 'failed', command, error });
+          continue;
+        }
+
+        const attempts = command.attempts + 1;
+        const delay = error instanceof RateLimitedError && error.retryAfter
+          ? error.retryAfter * 1000
+          : retryDelay(attempts);
+        setCommands(commands.map(queued =>
+          queued.id === command.id ? { ...queued, attempts, nextAttemptAt: Date.now() + delay } : queued
+        ));
+
+        // Still offline, no point trying the rest of the queue right now
+        if (error instanceof NetworkError) {
+          break;
+        }
+      } finally {
+        setInFlight(null);
+      }
+    }
+  } finally {
+    isFlushing = false;
+    scheduleRetry();
+  }
+};
+
+// Load the persisted queue and flush it whenever connectivity comes back
+export const startOutbox = async () => {
+  try {
+    const raw = await storage.getItem(OUTBOX_KEY);
+    if (raw) {
+      setCommands(JSON.parse(raw));
+    }
+  } catch (error) {
+    log.error('Failed to restore outbox:', error);
+  }
+
+  const unsubscribe = NetInfo.addEventListener(state => {
+    const wasOnline = isOnline;
+    isOnline = state.isConnected !== false && state.isInternetReachable !== false;
+
+    if (isOnline && !wasOnline) {
+      // Connectivity is back, retry everything immediately
+      setCommands(commands.map(command => ({ ...command, nextAttemptAt: Date.now() })));
+    }
+    if (isOnline) {
+      flushOutbox();
+    } else {
+      scheduleRetry();
+    }
+  });
+
+  return () => {
+    unsubscribe();
+    if (retryTimer) {
+      clearTimeout(retryTimer);
+      retryTimer = null;
+    }
+  };
+};
+
+// Drop the pending commands of one account, or all of them, e.g. when the user logs out
+export const clearOutbox = async (userId?: string | null) => {
+  if (userId) {
+    setCommands(commands.filter(command => command.userId !== userId));
+    return;
+  }
+  commands = [];
+  commandsListeners.forEach(listener => listener(commands));
+  await storage.removeItem(OUTBOX_KEY);
+};
+
+export const isOutboxOnline = () => isOnline;
@@ -0,0 +1,42 @@
+import * as Location from 'expo-location';
+import { Coordinates } from '../utils/location';
+import { createLogger } from './logger';
+
+const log = createLogger('position');
+
+// Where the phone is; swapped for a fixed position in tests and on simulators without GPS
+export interface PositionProvider {
+  // Null when the user declined location access or no fix could be obtained
+  getCurrentPosition: () => Promise<Coordinates | null>;
+}
+
+export const expoPositionProvider: PositionProvider = {
+  getCurrentPosition: async () => {
+    try {
+      const { status } = await Location.requestForegroundPermissionsAsync();
+      if (status !== 'granted') {
+        return null;
+      }
+      // A recent cached fix is good enough for sorting and is instant
+      const position =
+        (await Location.getLastKnownPositionAsync({ maxAge: 60000 })) ??
+        (await Location.getCurrentPositionAsync({ accuracy: Location.Accuracy.Balanced }));
+      return { latitude: position.coords.latitude, longitude: position.coords.longitude };
+    } catch (error) {
+      log.error('Error reading current position:', error);
+      return null;
+    }
+  },
+};
+
+export const createFixedPositionProvider = (position: Coordinates | null): PositionProvider => ({
+  getCurrentPosition: async () => position,
+});
+
+let provider: PositionProvider = expoPositionProvider;
+
+export const setPositionProvider = (next: PositionProvider) => {
+  provider = next;
+};
+
+export const getCurrentPosition = () => provider.getCurrentPosition();
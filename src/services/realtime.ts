@@ -0,0 +1,211 @@
+import { UserDevice, fetchUserDevices } from './api';
+import { getTokens, onTokensChanged } from './apiClient';
+import { API_URL } from './environment';
+import { SchemaValidationError } from './errors';
+import { Validator, nullable, number, object, string } from './validation';
+import { parseDeviceStatus } from '../utils/deviceStatus';
+import { createLogger } from './logger';
+
+const log = createLogger('realtime');
+
+export interface DeviceStatusEvent {
+  type: string;
+  deviceId: string;
+  status: string;
+  batteryVoltage: number | null;
+  gsmSignal: number | null;
+  lastConnectionDate: string | null;
+}
+
+export type RealtimeState = 'connecting' | 'open' | 'polling' | 'closed';
+
+export interface RealtimeOptions {
+  userId: string;
+  onDeviceEvent: (event: DeviceStatusEvent) => void;
+  // Full list results while the socket is down and polling has taken over
+  onDevices: (devices: UserDevice[]) => void;
+  onStateChange?: (state: RealtimeState) => void;
+  url?: string;
+  createSocket?: (url: string) => WebSocket;
+  pollInterval?: number;
+}
+
+export const REALTIME_URL =
+  process.env.EXPO_PUBLIC_REALTIME_URL || `${API_URL.replace(/^http/, 'ws')}/ws`;
+
+const MIN_RECONNECT_DELAY = 1000;
+const MAX_RECONNECT_DELAY = 30000;
+// Failed connection attempts before the polling fallback kicks in
+const POLL_AFTER_ATTEMPTS = 2;
+const DEFAULT_POLL_INTERVAL = 15000;
+
+const deviceStatusEventSchema: Validator<DeviceStatusEvent> = object<DeviceStatusEvent>({
+  type: string,
+  deviceId: string,
+  status: string,
+  batteryVoltage: nullable(number),
+  gsmSignal: nullable(number),
+  lastConnectionDate: nullable(string),
+});
+
+// Patch the matching entry, keeping every other device (and the array order) untouched
+export const applyDeviceStatusEvent = (devices: UserDevice[], event: DeviceStatusEvent): UserDevice[] =>
+  devices.map(item => {
+    if (item.device.id !== event.deviceId) {
+      return item;
+    }
+    return {
+      ...item,
+      device: {
+        ...item.device,
+        status: parseDeviceStatus(event.status),
+        batteryVoltage: event.batteryVoltage ?? item.device.batteryVoltage,
+        gsmSignal: event.gsmSignal ?? item.device.gsmSignal,
+        lastConnectionDate: event.lastConnectionDate ?? item.device.lastConnectionDate,
+      },
+    };
+  });
+
+// Subscribe to device status pushes for the user, falling back to polling
+export const connectRealtime = ({
+  userId,
+  onDeviceEvent,
+  onDevices,
+  onStateChange,
+  url = REALTIME_URL,
+  createSocket = socketUrl => new WebSocket(socketUrl),
+  pollInterval = DEFAULT_POLL_INTERVAL,
+}: RealtimeOptions) => {
+  let socket: WebSocket | null = null;
+  let attempts = 0;
+  let stopped = false;
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  let pollTimer: ReturnType<typeof setInterval> | null = null;
+
+  const setState = (state: RealtimeState) => onStateChange?.(state);
+
+  const poll = async () => {
+    try {
+      onDevices(await fetchUserDevices());
+    } catch (error) {
+      log.error('Realtime polling fallback failed:', error);
+    }
+  };
+
+  const startPolling = () => {
+    if (pollTimer) {
+      return;
+    }
+    setState('polling');
+    poll();
+    pollTimer = setInterval(poll, pollInterval);
+  };
+
+  const stopPolling = () => {
+    if (pollTimer) {
+      clearInterval(pollTimer);
+      pollTimer = null;
+    }
+  };
+
+  const scheduleReconnect = () => {
+    if (stopped || reconnectTimer) {
+      return;
+    }
+    attempts++;
+    if (attempts >= POLL_AFTER_ATTEMPTS) {
+      startPolling();
+    }
+
+    // Exponential backoff with jitter so clients don't reconnect in lockstep
+    const delay = Math.min(MIN_RECONNECT_DELAY * 2 ** (attempts - 1), MAX_RECONNECT_DELAY);
+    reconnectTimer = setTimeout(() => {
+      reconnectTimer = null;
+      connect();
+    }, delay / 2 + Math.random() * delay / 2);
+  };
+
+  // Runs inside the socket's onmessage, where a throw would only surface as an uncaught error,
+  // so a bad frame or a failing handler is logged and dropped
+  const handleMessage = (message: WebSocketMessageEvent) => {
+    try {
+      const event = deviceStatusEventSchema(JSON.parse(message.data));
+      if (event.type === 'device-status') {
+        onDeviceEvent(event);
+      }
+    } catch (error) {
+      if (error instanceof SchemaValidationError || error instanceof SyntaxError) {
+        log.warn('Ignoring malformed realtime message:', error.message);
+        return;
+      }
+      log.error('Failed to handle realtime message:', error);
+    }
+  };
+
+  const authenticate = (accessToken: string | undefined) => {
+    socket?.send(JSON.stringify({ type: 'auth', token: accessToken }));
+  };
+
+  const connect = () => {
+    if (stopped) {
+      return;
+    }
+    if (!pollTimer) {
+      setState('connecting');
+    }
+
+    try {
+      socket = createSocket(url);
+    } catch (error) {
+      log.error('Realtime socket unavailable:', error);
+      scheduleReconnect();
+      return;
+    }
+
+    socket.onopen = () => {
+      attempts = 0;
+      stopPolling();
+      authenticate(getTokens()?.accessToken);
+      socket?.send(JSON.stringify({ type: 'subscribe', channel: 'device-status', userId }));
+      setState('open');
+    };
+    socket.onmessage = handleMessage;
+    socket.onclose = () => {
+      socket = null;
+      scheduleReconnect();
+    };
+    // onclose always follows onerror, reconnection is handled there
+    socket.onerror = () => undefined;
+  };
+
+  connect();
+
+  // The API client refreshes tokens on its own; hand the new one to an open socket so it does not
+  // keep running on a credential the server is about to expire
+  let lastAccessToken = getTokens()?.accessToken;
+  const unsubscribeTokens = onTokensChanged(tokens => {
+    if (!tokens?.accessToken || tokens.accessToken === lastAccessToken) {
+      return;
+    }
+    lastAccessToken = tokens.accessToken;
+    if (socket?.readyState === WebSocket.OPEN) {
+      authenticate(tokens.accessToken);
+    }
+  });
+
+  return () => {
+    stopped = true;
+    unsubscribeTokens();
+    stopPolling();
+    if (reconnectTimer) {
+      clearTimeout(reconnectTimer);
+      reconnectTimer = null;
+    }
+    if (socket) {
+      socket.onclose = null;
+      socket.close();
+      socket = null;
+    }
+    setState('closed');
+  };
+};
@@ -0,0 +1,53 @@
+import { ApiResponse } from './api';
+import { apiClient } from './apiClient';
+import { toApiError } from './errors';
+import { scheduleRuleSchema, validateList } from './validation';
+import { ScheduleRule } from '../utils/schedule';
+import { createLogger } from './logger';
+
+const log = createLogger('schedules');
+
+export type ScheduleRuleInput = Omit<ScheduleRule, 'id' | 'deviceId'>;
+
+// Schedules run server-side; the app only manages the rules
+export const fetchSchedules = async (deviceId: string): Promise<ScheduleRule[]> => {
+  try {
+    const response = await apiClient.get<ApiResponse>(`/tcp-device/${deviceId}/schedules`);
+    const { valid, invalid } = validateList(scheduleRuleSchema, response.data.payload, '$.payload');
+
+    invalid.forEach(issue => log.warn('Skipping schedule rule:', issue.message));
+    return valid;
+  } catch (error) {
+    throw toApiError(error);
+  }
+};
+
+export const createSchedule = async (deviceId: string, rule: ScheduleRuleInput): Promise<ScheduleRule> => {
+  try {
+    const response = await apiClient.post<ApiResponse>(`/tcp-device/${deviceId}/schedules`, rule);
+    return scheduleRuleSchema(response.data.payload, '$.payload');
+  } catch (error) {
+    throw toApiError(error);
+  }
+};
+
+export const updateSchedule = async (
+  deviceId: string,
+  ruleId: string,
+  rule: Partial<ScheduleRuleInput>
+): Promise<ScheduleRule> => {
+  try {
+    const response = await apiClient.patch<ApiResponse>(`/tcp-device/${deviceId}/schedules/${ruleId}`, rule);
+    return scheduleRuleSchema(response.data.payload, '$.payload');
+  } catch (error) {
+    throw toApiError(error);
+  }
+};
+
+export const deleteSchedule = async (deviceId: string, ruleId: string): Promise<void> => {
+  try {
+    await apiClient.delete(`/tcp-device/${deviceId}/schedules/${ruleId}`);
+  } catch (error) {
+    throw toApiError(error);
+  }
+};
@@ -0,0 +1,225 @@
+import { clearTokens, getTokens, onSessionExpired, onTokensChanged, refreshSession, setTokens } from './apiClient';
+import { StorageAdapter, secureStorage } from './storage';
+import { createLogger } from './logger';
+
+const log = createLogger('session');
+
+export interface Session {
+  userId: string;
+  // Shown in the account switcher; empty for sessions saved before it existed
+  email: string;
+  accessToken: string;
+  refreshToken: string;
+}
+
+export interface StoredAccount {
+  userId: string;
+  email: string;
+}
+
+interface StoredSessions {
+  activeUserId: string | null;
+  sessions: Session[];
+}
+
+// Small index of the stored accounts; the tokens live under one key per account, because
+// SecureStore values are capped at about 2 KB and a couple of JWT pairs already go past that
+interface SessionIndex {
+  activeUserId: string | null;
+  userIds: string[];
+}
+
+const INDEX_KEY = 'letsparky.sessions';
+// Single-session entry written before multiple accounts were supported
+const LEGACY_SESSION_KEY = 'letsparky.session';
+
+// SecureStore keys may only hold alphanumerics, ".", "-" and "_"
+const sessionKey = (userId: string) => `letsparky.session.${userId.replace(/[^A-Za-z0-9._-]/g, '_')}`;
+
+let storage: StorageAdapter = secureStorage;
+let currentUserId: string | null = null;
+let sessions: Session[] = [];
+let accounts: StoredAccount[] = [];
+const accountsListeners = new Set<(accounts: StoredAccount[]) => void>();
+
+// Swap the persistence backend (e.g. createMemoryStorage() in tests)
+export const setSessionStorage = (adapter: StorageAdapter) => {
+  storage = adapter;
+};
+
+// Every signed-in account on this device, the active one included
+export const getAccounts = () => accounts;
+
+export const subscribeAccounts = (listener: (accounts: StoredAccount[]) => void) => {
+  accountsListeners.add(listener);
+  return () => {
+    accountsListeners.delete(listener);
+  };
+};
+
+const isSession = (value: any): value is Session =>
+  Boolean(value?.userId && value?.accessToken && value?.refreshToken);
+
+const setSessions = (next: Session[]) => {
+  sessions = next;
+  accounts = next.map(({ userId, email }) => ({ userId, email }));
+  accountsListeners.forEach(listener => listener(accounts));
+};
+
+const persistIndex = async () => {
+  const index: SessionIndex = { activeUserId: currentUserId, userIds: sessions.map(item => item.userId) };
+  await storage.setItem(INDEX_KEY, JSON.stringify(index));
+};
+
+const persistSession = async (session: Session) => {
+  await storage.setItem(sessionKey(session.userId), JSON.stringify(session));
+};
+
+const readSession = async (userId: string): Promise<Session | null> => {
+  try {
+    const raw = await storage.getItem(sessionKey(userId));
+    const session = raw ? JSON.parse(raw) : null;
+    return isSession(session) ? session : null;
+  } catch {
+    return null;
+  }
+};
+
+// Move older layouts (one session, or every session in the index value) to one key per account
+const migrateSessions = async (stored: StoredSessions) => {
+  const migrated = stored.sessions.filter(isSession).map(session => ({ ...session, email: session.email ?? '' }));
+  await Promise.all(migrated.map(persistSession));
+  const index: SessionIndex = { activeUserId: stored.activeUserId, userIds: migrated.map(item => item.userId) };
+  await storage.setItem(INDEX_KEY, JSON.stringify(index));
+  return { activeUserId: stored.activeUserId, sessions: migrated };
+};
+
+const loadSessions = async (): Promise<StoredSessions> => {
+  try {
+    const raw = await storage.getItem(INDEX_KEY);
+    const stored = raw ? JSON.parse(raw) : null;
+    if (Array.isArray(stored?.sessions)) {
+      return await migrateSessions({ activeUserId: stored.activeUserId ?? null, sessions: stored.sessions });
+    }
+    if (Array.isArray(stored?.userIds)) {
+      const loaded = await Promise.all((stored.userIds as string[]).map(readSession));
+      return {
+        activeUserId: stored.activeUserId ?? null,
+        sessions: loaded.filter((session): session is Session => Boolean(session)),
+      };
+    }
+
+    const legacy = await storage.getItem(LEGACY_SESSION_KEY);
+    const session = legacy ? JSON.parse(legacy) : null;
+    if (isSession(session)) {
+      const migrated = await migrateSessions({ activeUserId: session.userId, sessions: [session] });
+      await storage.removeItem(LEGACY_SESSION_KEY);
+      return migrated;
+    }
+  } catch {
+    // Corrupted entry, treat as logged out
+  }
+  return { activeUserId: null, sessions: [] };
+};
+
+// Add the session to the stored accounts, replacing an older one for the same user
+export const saveSession = async (session: Session) => {
+  const existing = sessions.find(item => item.userId === session.userId);
+  const saved = existing ? { ...session, email: session.email || existing.email } : session;
+  setSessions(existing
+    ? sessions.map(item => (item.userId === session.userId ? saved : item))
+    : [...sessions, saved]);
+  await persistSession(saved);
+  if (!existing) {
+    await persistIndex();
+  }
+};
+
+// Drop a stored account and hand it back so its refresh token can be revoked
+export const removeSession = async (userId: string): Promise<Session | null> => {
+  const removed = sessions.find(item => item.userId === userId) ?? null;
+  if (currentUserId === userId) {
+    currentUserId = null;
+  }
+  setSessions(sessions.filter(item => item.userId !== userId));
+  await storage.removeItem(sessionKey(userId));
+  await persistIndex();
+  return removed;
+};
+
+// Called after a successful login, makes the session active and persists it
+export const startSession = async (session: Session) => {
+  currentUserId = session.userId;
+  setTokens({ accessToken: session.accessToken, refreshToken: session.refreshToken });
+  await saveSession(session);
+  await persistIndex();
+};
+
+// Make a stored session the active one and refresh it silently
+const activate = async (saved: Session): Promise<Session | null> => {
+  currentUserId = saved.userId;
+  setTokens({ accessToken: saved.accessToken, refreshToken: saved.refreshToken });
+  await persistIndex();
+
+  try {
+    await refreshSession();
+  } catch (error: any) {
+    // Rejected by the server: the stored session is dead
+    if (error?.response) {
+      currentUserId = null;
+      return null;
+    }
+    // Offline: keep the stored tokens, the client refreshes on the next 401
+  }
+
+  const current = getTokens();
+  if (!current?.refreshToken) {
+    return null;
+  }
+  return { ...saved, accessToken: current.accessToken, refreshToken: current.refreshToken };
+};
+
+// Restore the persisted sessions on launch and resume the one that was active
+export const restoreSession = async (): Promise<Session | null> => {
+  const stored = await loadSessions();
+  setSessions(stored.sessions);
+
+  const saved = sessions.find(item => item.userId === stored.activeUserId);
+  return saved ? activate(saved) : null;
+};
+
+// Switch the API client over to another stored account
+export const switchSession = async (userId: string): Promise<Session | null> => {
+  const saved = sessions.find(item => item.userId === userId);
+  return saved ? activate(saved) : null;
+};
+
+export const getSessionUserId = () => currentUserId;
+
+// Explicit logout wipes the in-memory tokens and the active account; other accounts stay stored
+export const logout = async () => {
+  const userId = currentUserId;
+  currentUserId = null;
+  clearTokens();
+  if (userId) {
+    await removeSession(userId);
+  }
+};
+
+// Keep the stored pair in sync with refreshes done by the API client
+onTokensChanged(tokens => {
+  const active = sessions.find(item => item.userId === currentUserId);
+  if (!tokens?.refreshToken || !active) {
+    return;
+  }
+  saveSession({ ...active, accessToken: tokens.accessToken, refreshToken: tokens.refreshToken })
+    .catch(error => log.error('Failed to persist session:', error));
+});
+
+onSessionExpired(() => {
+  const userId = currentUserId;
+  currentUserId = null;
+  if (userId) {
+    removeSession(userId).catch(error => log.error('Failed to clear session:', error));
+  }
+});
@@ -0,0 +1,70 @@
+import { AccessPermission, ApiResponse } from './api';
+import { apiClient } from './apiClient';
+import { toApiError } from './errors';
+import { deviceAccessSchema, validateList } from './validation';
+import { createLogger } from './logger';
+
+const log = createLogger('sharing');
+
+// Someone (owner or guest) who can see a device
+export interface DeviceAccess {
+  id: string;
+  userId: string | null;
+  email: string;
+  relationshipType: string;
+  permission: AccessPermission;
+  expiresAt: string | null;
+  // Invitations stay PENDING until the guest accepts them
+  status: 'ACTIVE' | 'PENDING';
+}
+
+export interface GuestInvite {
+  email: string;
+  permission: AccessPermission;
+  expiresAt: string | null;
+}
+
+export type GuestAccessUpdate = Pick<GuestInvite, 'permission' | 'expiresAt'>;
+
+// List everyone who has access to the device (owner only)
+export const fetchDeviceAccess = async (deviceId: string): Promise<DeviceAccess[]> => {
+  try {
+    const response = await apiClient.get<ApiResponse>(`/tcp-device/${deviceId}/access`);
+    const { valid, invalid } = validateList(deviceAccessSchema, response.data.payload, '$.payload');
+
+    invalid.forEach(issue => log.warn('Skipping access entry:', issue.message));
+    return valid;
+  } catch (error) {
+    throw toApiError(error);
+  }
+};
+
+export const inviteGuest = async (deviceId: string, invite: GuestInvite): Promise<DeviceAccess> => {
+  try {
+    const response = await apiClient.post<ApiResponse>(`/tcp-device/${deviceId}/access`, invite);
+    return deviceAccessSchema(response.data.payload, '$.payload');
+  } catch (error) {
+    throw toApiError(error);
+  }
+};
+
+export const updateGuestAccess = async (
+  deviceId: string,
+  accessId: string,
+  update: GuestAccessUpdate
+): Promise<DeviceAccess> => {
+  try {
+    const response = await apiClient.patch<ApiResponse>(`/tcp-device/${deviceId}/access/${accessId}`, update);
+    return deviceAccessSchema(response.data.payload, '$.payload');
+  } catch (error) {
+    throw toApiError(error);
+  }
+};
+
+export const revokeAccess = async (deviceId: string, accessId: string): Promise<void> => {
+  try {
+    await apiClient.delete(`/tcp-device/${deviceId}/access/${accessId}`);
+  } catch (error) {
+    throw toApiError(error);
+  }
+};
@@ -0,0 +1,38 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as SecureStore from 'expo-secure-store';
+
+// Minimal key/value contract so persistence can be swapped out in tests
+export interface StorageAdapter {
+  getItem: (key: string) => Promise<string | null>;
+  setItem: (key: string, value: string) => Promise<void>;
+  removeItem: (key: string) => Promise<void>;
+}
+
+// In-memory adapter, state is lost when the process exits
+export const createMemoryStorage = (initial: Record<string, string> = {}): StorageAdapter => {
+  const entries = new Map<string, string>(Object.entries(initial));
+
+  return {
+    getItem: async key => entries.get(key) ?? null,
+    setItem: async (key, value) => {
+      entries.set(key, value);
+    },
+    removeItem: async key => {
+      entries.delete(key);
+    },
+  };
+};
+
+// Keychain / Keystore backed adapter for devices
+export const secureStorage: StorageAdapter = {
+  getItem: key => SecureStore.getItemAsync(key),
+  setItem: (key, value) => SecureStore.setItemAsync(key, value),
+  removeItem: key => SecureStore.deleteItemAsync(key),
+};
+
+// Unencrypted adapter for non-secret app data (queues, caches, preferences)
+export const asyncStorage: StorageAdapter = {
+  getItem: key => AsyncStorage.getItem(key),
+  setItem: (key, value) => AsyncStorage.setItem(key, value),
+  removeItem: key => AsyncStorage.removeItem(key),
+};
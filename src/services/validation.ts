@@ -0,0 +1,185 @@
+import { SchemaValidationError } from './errors';
+import type { Device, LoginResponse, RegisterResponse, TokenPair, UserDevice } from './api';
+import type { ActivityActor, ActivityEvent } from './activity';
+import type { DeviceAccess } from './sharing';
+import type { ScheduleRule, Weekday } from '../utils/schedule';
+import { DeviceStatus, parseDeviceStatus } from '../utils/deviceStatus';
+import { createLogger } from './logger';
+
+const log = createLogger('validation');
+
+// A validator returns the value typed as T or throws with the offending path
+export type Validator<T> = (value: unknown, path?: string) => T;
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Primitive validators
+export const string: Validator<string> = (value, path = '$') => {
+  if (typeof value !== 'string') {
+    throw new SchemaValidationError(path, 'string', value);
+  }
+  return value;
+};
+
+export const number: Validator<number> = (value, path = '$') => {
+  if (typeof value !== 'number' || Number.isNaN(value)) {
+    throw new SchemaValidationError(path, 'number', value);
+  }
+  return value;
+};
+
+export const boolean: Validator<boolean> = (value, path = '$') => {
+  if (typeof value !== 'boolean') {
+    throw new SchemaValidationError(path, 'boolean', value);
+  }
+  return value;
+};
+
+export const oneOf = <T extends string>(...values: T[]): Validator<T> => (value, path = '$') => {
+  if (!values.includes(value as T)) {
+    throw new SchemaValidationError(path, values.map(v => `"${v}"`).join(' | '), value);
+  }
+  return value as T;
+};
+
+// Accepts anything, for parts validated separately (e.g. with validateList)
+export const unknown: Validator<unknown> = value => value;
+
+// Combinators
+export const nullable = <T>(validator: Validator<T>): Validator<T | null> => (value, path = '$') =>
+  value === null || value === undefined ? null : validator(value, path);
+
+export const object = <T>(shape: { [K in keyof T]: Validator<T[K]> }): Validator<T> => (value, path = '$') => {
+  if (!isPlainObject(value)) {
+    throw new SchemaValidationError(path, 'object', value);
+  }
+
+  const result = {} as T;
+  for (const key of Object.keys(shape) as (keyof T)[]) {
+    result[key] = shape[key](value[key as string], `${path}.${String(key)}`);
+  }
+  return result;
+};
+
+export const array = <T>(item: Validator<T>): Validator<T[]> => (value, path = '$') => {
+  if (!Array.isArray(value)) {
+    throw new SchemaValidationError(path, 'array', value);
+  }
+  return value.map((entry, index) => item(entry, `${path}[${index}]`));
+};
+
+// Validate a list item by item, keeping the valid ones and collecting the rest
+export const validateList = <T>(item: Validator<T>, value: unknown, path = '$') => {
+  if (!Array.isArray(value)) {
+    throw new SchemaValidationError(path, 'array', value);
+  }
+
+  const valid: T[] = [];
+  const invalid: SchemaValidationError[] = [];
+
+  value.forEach((entry, index) => {
+    try {
+      valid.push(item(entry, `${path}[${index}]`));
+    } catch (error) {
+      if (!(error instanceof SchemaValidationError)) {
+        throw error;
+      }
+      invalid.push(error);
+    }
+  });
+
+  return { valid, invalid };
+};
+
+// API schemas
+export const deviceStatus: Validator<DeviceStatus> = (value, path = '$') => {
+  const status = parseDeviceStatus(string(value, path));
+  if (status.kind === 'unknown') {
+    log.warn(`Unknown device status "${status.raw}" at "${path}"`);
+  }
+  return status;
+};
+
+export const deviceSchema: Validator<Device> = object<Device>({
+  id: string,
+  serialNo: string,
+  nickName: string,
+  type: string,
+  status: deviceStatus,
+  batteryVoltage: nullable(number),
+  location: nullable(string),
+  lastConnectionDate: nullable(string),
+  gsmSignal: nullable(number),
+  siteName: nullable(string),
+});
+
+export const userDeviceSchema: Validator<UserDevice> = object<UserDevice>({
+  id: string,
+  isFavorite: boolean,
+  relationshipType: string,
+  status: string,
+  // Only guests carry a permission, owners can always operate
+  permission: nullable(oneOf('VIEW', 'OPERATE')),
+  ownerEmail: nullable(string),
+  device: deviceSchema,
+});
+
+export const deviceAccessSchema: Validator<DeviceAccess> = object<DeviceAccess>({
+  id: string,
+  userId: nullable(string),
+  email: string,
+  relationshipType: string,
+  permission: oneOf('VIEW', 'OPERATE'),
+  expiresAt: nullable(string),
+  status: oneOf('ACTIVE', 'PENDING'),
+});
+
+export const tokenPairSchema: Validator<TokenPair> = object<TokenPair>({
+  accessToken: string,
+  refreshToken: string,
+});
+
+// The credentials endpoint returns the token pair alongside the user id
+export const loginPayloadSchema: Validator<LoginResponse & TokenPair> = object<LoginResponse & TokenPair>({
+  userId: string,
+  accessToken: string,
+  refreshToken: string,
+});
+
+export const registerPayloadSchema: Validator<RegisterResponse> = object<RegisterResponse>({
+  userId: string,
+  email: string,
+});
+
+const weekday: Validator<Weekday> = (value, path = '$') => {
+  const day = number(value, path);
+  if (!Number.isInteger(day) || day < 0 || day > 6) {
+    throw new SchemaValidationError(path, 'weekday 0-6', value);
+  }
+  return day as Weekday;
+};
+
+export const scheduleRuleSchema: Validator<ScheduleRule> = object<ScheduleRule>({
+  id: string,
+  deviceId: string,
+  days: array(weekday),
+  time: string,
+  timeZone: string,
+  action: oneOf('block', 'unblock'),
+  enabled: boolean,
+});
+
+export const activityEventSchema: Validator<ActivityEvent> = object<ActivityEvent>({
+  id: string,
+  deviceId: string,
+  type: oneOf('BLOCK', 'UNBLOCK', 'ALARM', 'CONNECTION_LOST', 'CONNECTION_RESTORED', 'BATTERY_LOW'),
+  actor: nullable(object<ActivityActor>({ id: string, name: string })),
+  timestamp: string,
+  result: oneOf('SUCCESS', 'FAILED', 'PENDING'),
+});
+
+export const activityPageSchema = object<{ items: unknown[]; nextCursor: string | null }>({
+  items: array(unknown),
+  nextCursor: nullable(string),
+});
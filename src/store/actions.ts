@@ -0,0 +1,178 @@
+import { fetchUserDevices, logout, removeAccount, renameDevice, setDeviceFavorite, unlinkDevice } from '../services/api';
+import { onSessionExpired, onTokensChanged } from '../services/apiClient';
+import { getAccounts, getSessionUserId, restoreSession, subscribeAccounts, switchSession } from '../services/session';
+import { clearOutbox, flushOutbox } from '../services/outbox';
+import { clearAlerts, stopAlerts } from '../services/alerts';
+import { cancelAllWatches } from '../services/deviceWatcher';
+import { restoreDemoMode } from '../services/demoMode';
+import { restoreAppLock } from '../services/appLock';
+import { clearTransitions } from './commands';
+import { abandonBatch } from './batch';
+import {
+  getAppState,
+  replaceUserState,
+  resetUserState,
+  runOptimistic,
+  setDevices,
+  setDevicesError,
+  setDevicesLoading,
+  setAccounts,
+  setRestoring,
+  setSession,
+  setStatusMessage,
+} from './appStore';
+import { createLogger } from '../services/logger';
+
+const log = createLogger('store');
+
+export const loadDevices = async () => {
+  setDevicesLoading(true);
+  try {
+    setDevices(await fetchUserDevices());
+  } catch (error: any) {
+    log.error('Failed to fetch devices:', error);
+    setDevicesError(error);
+  }
+};
+
+// Stop everything that belongs to the account being left
+const leaveAccount = async () => {
+  abandonBatch();
+  cancelAllWatches();
+  clearTransitions();
+  stopAlerts();
+};
+
+const accountLabel = (userId: string) => {
+  const account = getAccounts().find(item => item.userId === userId);
+  return account?.email || userId;
+};
+
+// Called once the login form has started a session, either the first one or an added account
+export const completeLogin = async (accessToken: string) => {
+  const { userId } = getAppState().session;
+  if (userId && userId !== getSessionUserId()) {
+    await leaveAccount();
+  }
+  replaceUserState(getSessionUserId(), accessToken);
+  await loadDevices();
+};
+
+// Pick up the persisted session on launch
+export const restore = async () => {
+  try {
+    // The backend choice has to be settled before the saved tokens are used
+    await restoreDemoMode();
+    await restoreAppLock();
+    const session = await restoreSession();
+    if (session) {
+      setSession(session.userId, session.accessToken);
+      await loadDevices();
+    }
+  } catch (error) {
+    log.error('Failed to restore session:', error);
+  } finally {
+    setRestoring(false);
+  }
+};
+
+// Make another stored account the active one
+export const switchAccount = async (userId: string, statusMessage: string = '') => {
+  await leaveAccount();
+  const session = await switchSession(userId);
+  if (!session) {
+    // Its refresh token was rejected; the session expiry handler moves on from here
+    return;
+  }
+  replaceUserState(session.userId, session.accessToken, statusMessage);
+  // Commands this account queued earlier can go out now
+  flushOutbox();
+  await loadDevices();
+};
+
+// Log out of the active account and carry on with the next stored one, if any
+export const signOut = async () => {
+  const userId = getSessionUserId();
+  await logout();
+  await clearOutbox(userId);
+  await leaveAccount();
+  if (userId) {
+    await clearAlerts(userId);
+  }
+
+  const [next] = getAccounts();
+  if (next) {
+    await switchAccount(next.userId, `Switched to ${accountLabel(next.userId)}`);
+  } else {
+    resetUserState();
+  }
+};
+
+// Log out of an account that is not the active one
+export const signOutAccount = async (userId: string) => {
+  if (userId === getSessionUserId()) {
+    await signOut();
+    return;
+  }
+  await removeAccount(userId);
+  await clearOutbox(userId);
+  await clearAlerts(userId);
+};
+
+// Flip the star immediately and undo it if the server refuses
+export const toggleFavorite = async (deviceId: string) => {
+  const target = getAppState().visible.byId[deviceId];
+  if (!target) {
+    return;
+  }
+
+  const isFavorite = !target.isFavorite;
+  try {
+    await runOptimistic(
+      'favorite',
+      deviceId,
+      userDevice => ({ ...userDevice, isFavorite }),
+      () => setDeviceFavorite(target.id, isFavorite)
+    );
+  } catch (error) {
+    log.error('Failed to update favorite:', error);
+    setStatusMessage('Failed to update favorites');
+  }
+};
+
+export const renameOwnedDevice = (deviceId: string, nickName: string) =>
+  runOptimistic(
+    'rename',
+    deviceId,
+    userDevice => ({ ...userDevice, device: { ...userDevice.device, nickName } }),
+    () => renameDevice(deviceId, nickName)
+  );
+
+export const unlinkOwnedDevice = async (deviceId: string) => {
+  const target = getAppState().visible.byId[deviceId];
+  if (!target) {
+    return;
+  }
+
+  await runOptimistic('unlink', deviceId, () => null, () => unlinkDevice(target.id));
+  setStatusMessage(`${target.device.nickName || target.device.serialNo} was removed`);
+};
+
+onSessionExpired(() => {
+  // The expired account is already gone from the stored list
+  const [next] = getAccounts();
+  if (next) {
+    switchAccount(next.userId, `Session expired. Switched to ${accountLabel(next.userId)}`);
+  } else {
+    resetUserState('Session expired. Please login again');
+  }
+});
+
+subscribeAccounts(setAccounts);
+
+// Keep the session slice in step with refreshes done by the API client
+onTokensChanged(tokens => {
+  if (tokens && getAppState().session.accessToken) {
+    setSession(getAppState().session.userId, tokens.accessToken);
+  }
+});
@@ -0,0 +1,269 @@
+import type { DeviceCommandAction, UserDevice } from '../services/api';
+import type { BatchItem } from '../services/batchCommands';
+import type { StoredAccount } from '../services/session';
+import { createStore } from './createStore';
+
+export type PendingOperationKind = 'favorite' | 'rename' | 'unlink' | 'command';
+
+export interface PendingOperation {
+  id: string;
+  kind: PendingOperationKind;
+  deviceId: string;
+  startedAt: number;
+  // Layered over the server copy until the request settles; null hides the device
+  apply: (userDevice: UserDevice) => UserDevice | null;
+}
+
+export interface DevicesState {
+  // Server copy, keyed by device.id
+  byId: Record<string, UserDevice>;
+  ids: string[];
+  isLoading: boolean;
+  error: Error | null;
+  // False until the first fetch, so an empty list is not mistaken for "no devices"
+  hasLoaded: boolean;
+}
+
+export interface SessionState {
+  userId: string | null;
+  accessToken: string;
+  // Every account signed in on this device, for the account switcher
+  accounts: StoredAccount[];
+  isRestoring: boolean;
+  statusMessage: string;
+}
+
+export interface VisibleDevices {
+  byId: Record<string, UserDevice>;
+  list: UserDevice[];
+}
+
+export interface BatchState {
+  action: DeviceCommandAction;
+  items: BatchItem[];
+  isRunning: boolean;
+}
+
+export interface AppState {
+  devices: DevicesState;
+  session: SessionState;
+  pending: Record<string, PendingOperation>;
+  // Last bulk command, kept after it finishes so its summary can be shown
+  batch: BatchState | null;
+  // Server copy with pending operations applied, rebuilt only when either changes
+  visible: VisibleDevices;
+}
+
+const EMPTY_DEVICES: DevicesState = { byId: {}, ids: [], isLoading: false, error: null, hasLoaded: false };
+
+const INITIAL_STATE: AppState = {
+  devices: EMPTY_DEVICES,
+  session: { userId: null, accessToken: '', accounts: [], isRestoring: true, statusMessage: '' },
+  pending: {},
+  batch: null,
+  visible: { byId: {}, list: [] },
+};
+
+// Unchanged devices keep their object identity so useDevice(id) subscribers skip re-renders
+const buildVisible = (devices: DevicesState, pending: Record<string, PendingOperation>): VisibleDevices => {
+  const operations = Object.values(pending).sort((a, b) => a.startedAt - b.startedAt);
+  const byId: Record<string, UserDevice> = {};
+  const list: UserDevice[] = [];
+
+  devices.ids.forEach(id => {
+    let userDevice: UserDevice | null = devices.byId[id];
+    operations.forEach(operation => {
+      if (userDevice && operation.deviceId === id) {
+        userDevice = operation.apply(userDevice);
+      }
+    });
+    if (userDevice) {
+      byId[id] = userDevice;
+      list.push(userDevice);
+    }
+  });
+  return { byId, list };
+};
+
+const store = createStore<AppState>(INITIAL_STATE);
+
+export const getAppState = store.getState;
+export const subscribeAppState = store.subscribe;
+
+const update = (updater: (state: AppState) => AppState) => {
+  store.setState(state => {
+    const next = updater(state);
+    if (next === state || (next.devices === state.devices && next.pending === state.pending)) {
+      return next;
+    }
+    return { ...next, visible: buildVisible(next.devices, next.pending) };
+  });
+};
+
+const normalize = (list: UserDevice[]) => ({
+  byId: Object.fromEntries(list.map(item => [item.device.id, item])),
+  ids: list.map(item => item.device.id),
+});
+
+// Devices slice
+
+export const setDevices = (list: UserDevice[]) => {
+  update(state => ({
+    ...state,
+    devices: { ...state.devices, ...normalize(list), isLoading: false, error: null, hasLoaded: true },
+  }));
+};
+
+// Apply a list transform (e.g. a realtime event) to the server copy
+export const updateDeviceList = (transform: (list: UserDevice[]) => UserDevice[]) => {
+  update(state => {
+    const current = state.devices.ids.map(id => state.devices.byId[id]);
+    return { ...state, devices: { ...state.devices, ...normalize(transform(current)) } };
+  });
+};
+
+export const patchDevice = (deviceId: string, patch: (userDevice: UserDevice) => UserDevice) => {
+  update(state => {
+    const existing = state.devices.byId[deviceId];
+    if (!existing) {
+      return state;
+    }
+    return {
+      ...state,
+      devices: { ...state.devices, byId: { ...state.devices.byId, [deviceId]: patch(existing) } },
+    };
+  });
+};
+
+export const removeDevice = (deviceId: string) => {
+  update(state => {
+    if (!state.devices.byId[deviceId]) {
+      return state;
+    }
+    const { [deviceId]: _removed, ...byId } = state.devices.byId;
+    return {
+      ...state,
+      devices: { ...state.devices, byId, ids: state.devices.ids.filter(id => id !== deviceId) },
+    };
+  });
+};
+
+export const setDevicesLoading = (isLoading: boolean) => {
+  update(state => ({ ...state, devices: { ...state.devices, isLoading, error: isLoading ? null : state.devices.error } }));
+};
+
+export const setDevicesError = (error: Error) => {
+  update(state => ({ ...state, devices: { ...state.devices, isLoading: false, error } }));
+};
+
+// Session slice
+
+export const setSession = (userId: string | null, accessToken: string) => {
+  update(state => ({ ...state, session: { ...state.session, userId, accessToken } }));
+};
+
+export const setAccounts = (accounts: StoredAccount[]) => {
+  update(state => ({ ...state, session: { ...state.session, accounts } }));
+};
+
+export const setRestoring = (isRestoring: boolean) => {
+  update(state => ({ ...state, session: { ...state.session, isRestoring } }));
+};
+
+export const setStatusMessage = (statusMessage: string) => {
+  update(state =>
+    state.session.statusMessage === statusMessage
+      ? state
+      : { ...state, session: { ...state.session, statusMessage } }
+  );
+};
+
+// Drop everything tied to the signed-in user, keeping the message that explains why
+export const resetUserState = (statusMessage: string = '') => {
+  update(state => ({
+    ...state,
+    devices: EMPTY_DEVICES,
+    pending: {},
+    batch: null,
+    session: { ...state.session, userId: null, accessToken: '', statusMessage },
+  }));
+};
+
+// Start over with another account's devices, without passing through the logged out state
+export const replaceUserState = (userId: string | null, accessToken: string, statusMessage: string = '') => {
+  update(state => ({
+    ...state,
+    devices: EMPTY_DEVICES,
+    pending: {},
+    batch: null,
+    session: { ...state.session, userId, accessToken, statusMessage },
+  }));
+};
+
+// Batch slice
+
+export const setBatch = (batch: BatchState | null) => {
+  update(state => ({ ...state, batch }));
+};
+
+// Pending operations slice
+
+let operationSeq = 0;
+
+// Layer a change over the server copy until settleOptimistic is called with the returned id
+export const beginOptimistic = (
+  kind: PendingOperationKind,
+  deviceId: string,
+  apply: PendingOperation['apply']
+) => {
+  const id = `${kind}-${deviceId}-${++operationSeq}`;
+  const operation: PendingOperation = { id, kind, deviceId, startedAt: Date.now(), apply };
+  update(state => ({ ...state, pending: { ...state.pending, [id]: operation } }));
+  return id;
+};
+
+// Commit folds the change into the server copy; otherwise it is simply dropped,
+// so anything the server pushed in the meantime survives the rollback.
+export const settleOptimistic = (id: string, commit: boolean) => {
+  update(state => {
+    const operation = state.pending[id];
+    if (!operation) {
+      return state;
+    }
+
+    const { [id]: _settled, ...pending } = state.pending;
+    if (!commit) {
+      return { ...state, pending };
+    }
+
+    const { deviceId } = operation;
+    const existing = state.devices.byId[deviceId];
+    const result = existing ? operation.apply(existing) : null;
+    if (existing && result) {
+      return { ...state, pending, devices: { ...state.devices, byId: { ...state.devices.byId, [deviceId]: result } } };
+    }
+    const { [deviceId]: _removed, ...byId } = state.devices.byId;
+    return {
+      ...state,
+      pending,
+      devices: { ...state.devices, byId, ids: state.devices.ids.filter(item => item !== deviceId) },
+    };
+  });
+};
+
+// Show the change immediately and keep it layered over the server copy while the request runs
+export const runOptimistic = async (
+  kind: PendingOperationKind,
+  deviceId: string,
+  apply: PendingOperation['apply'],
+  request: () => Promise<void>
+) => {
+  const id = beginOptimistic(kind, deviceId, apply);
+  try {
+    await request();
+    settleOptimistic(id, true);
+  } catch (error) {
+    settleOptimistic(id, false);
+    throw error;
+  }
+};
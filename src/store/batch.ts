@@ -0,0 +1,99 @@
+import { DeviceCommandAction, UserDevice } from '../services/api';
+import { confirmSensitiveAction } from '../services/appLock';
+import { BatchHandle, isBatchItemFinished, retryableItems, runBatch } from '../services/batchCommands';
+import { bulkTargets } from '../utils/deviceGroups';
+import { getAppState, patchDevice, setBatch, setStatusMessage } from './appStore';
+import { Transition, endTransition, startTransition } from './commands';
+
+let current: BatchHandle | null = null;
+// Moving cards the running batch started and has not settled yet
+const transitions = new Map<string, Transition>();
+
+// Send one command to many devices, showing each card moving until its barrier answers
+export const startBatch = async (deviceIds: string[], action: DeviceCommandAction) => {
+  if (current) {
+    setStatusMessage('Wait for the running bulk command to finish');
+    return;
+  }
+
+  const visible = getAppState().visible.byId;
+  const selected = deviceIds.map(id => visible[id]).filter((item): item is UserDevice => Boolean(item));
+  const targets = bulkTargets(selected, action);
+  const skipped = deviceIds.length - targets.length;
+
+  if (!targets.length) {
+    setStatusMessage(`None of the selected devices can be ${action}ed right now`);
+    return;
+  }
+  if (!(await confirmSensitiveAction({ source: 'bulk', action, target: String(targets.length) }))) {
+    setStatusMessage(`Nothing was ${action}ed, the app lock was not confirmed`);
+    return;
+  }
+  // Another batch may have started while the prompt was showing
+  if (current) {
+    setStatusMessage('Wait for the running bulk command to finish');
+    return;
+  }
+  setStatusMessage(skipped ? `Skipped ${skipped} device(s) that cannot be ${action}ed right now` : '');
+
+  targets.forEach(item => transitions.set(item.device.id, startTransition(item.device.id, action)));
+  const settled = new Set<number>();
+
+  const handle = runBatch(targets.map(item => ({ deviceId: item.device.id, action })), {
+    onUpdate: items => {
+      if (current !== handle) {
+        return;
+      }
+      items.forEach((item, index) => {
+        if (!isBatchItemFinished(item) || settled.has(index)) {
+          return;
+        }
+        settled.add(index);
+        if (item.device) {
+          patchDevice(item.deviceId, () => item.device!);
+        }
+        endTransition(item.deviceId, transitions.get(item.deviceId));
+        transitions.delete(item.deviceId);
+      });
+      setBatch({ action, items, isRunning: true });
+    },
+  });
+  current = handle;
+
+  const items = await handle.promise;
+  if (current !== handle) {
+    return;
+  }
+  current = null;
+  setBatch({ action, items, isRunning: false });
+};
+
+// Send the last batch's failed and unconfirmed commands again
+export const retryFailedBatch = () => {
+  const { batch } = getAppState();
+  if (!batch || batch.isRunning) {
+    return;
+  }
+  return startBatch(retryableItems(batch.items).map(item => item.deviceId), batch.action);
+};
+
+// Stop sending the remaining commands and stop waiting for the sent ones
+export const cancelBatch = () => {
+  current?.cancel();
+};
+
+export const dismissBatch = () => {
+  if (!current) {
+    setBatch(null);
+  }
+};
+
+// Forget the running batch without waiting for it, e.g. when the account changes. Its updates are
+// ignored from here on, so the cards it left moving are settled now
+export const abandonBatch = () => {
+  current?.cancel();
+  current = null;
+  transitions.forEach((transition, deviceId) => endTransition(deviceId, transition));
+  transitions.clear();
+  setBatch(null);
+};
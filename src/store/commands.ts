@@ -0,0 +1,121 @@
+import { DeviceCommandAction, UserDevice } from '../services/api';
+import { confirmSensitiveAction } from '../services/appLock';
+import { WatchHandle, watchDeviceStatus } from '../services/deviceWatcher';
+import { enqueueCommand, isOutboxOnline, onOutboxEvent } from '../services/outbox';
+import { expectedStatusAfter, parseDeviceStatus } from '../utils/deviceStatus';
+import { beginOptimistic, getAppState, patchDevice, setStatusMessage, settleOptimistic } from './appStore';
+import { createLogger } from '../services/logger';
+
+const log = createLogger('commands');
+
+export interface Transition {
+  operationId: string;
+  action: DeviceCommandAction;
+  watch?: WatchHandle;
+}
+
+// Devices currently shown as moving while their command is queued, sent or awaiting confirmation
+const transitions = new Map<string, Transition>();
+
+const deviceName = (deviceId: string) => {
+  const userDevice = getAppState().visible.byId[deviceId];
+  return userDevice ? userDevice.device.nickName || userDevice.device.serialNo : 'Device';
+};
+
+// Show the barrier moving until the server reports something other than the state it was tapped in
+const movingTowards = (action: DeviceCommandAction, from: UserDevice | undefined) => {
+  const moving = parseDeviceStatus(action === 'block' ? 'BLOCKING' : 'UNBLOCKING');
+  const fromKind = from?.device.status.kind;
+
+  return (userDevice: UserDevice) => userDevice.device.status.kind !== fromKind
+    ? userDevice
+    : { ...userDevice, device: { ...userDevice.device, status: moving } };
+};
+
+// Show the device moving until endTransition; replaces any transition it already had
+export const startTransition = (deviceId: string, action: DeviceCommandAction) => {
+  endTransition(deviceId);
+  const from = getAppState().devices.byId[deviceId];
+  const operationId = beginOptimistic('command', deviceId, movingTowards(action, from));
+  const transition: Transition = { operationId, action };
+  transitions.set(deviceId, transition);
+  return transition;
+};
+
+// Drop the moving layer; the card falls back to whatever the server copy says.
+// With `owner`, only that transition is ended, not one a newer command started since
+export const endTransition = (deviceId: string, owner?: Transition) => {
+  const transition = transitions.get(deviceId);
+  if (!transition || (owner && transition !== owner)) {
+    return;
+  }
+  transitions.delete(deviceId);
+  transition.watch?.cancel();
+  settleOptimistic(transition.operationId, false);
+};
+
+const confirmTransition = async (deviceId: string, action: DeviceCommandAction) => {
+  // Commands restored from a previous run have no transition yet
+  const existing = transitions.get(deviceId);
+  const transition = existing?.action === action ? existing : startTransition(deviceId, action);
+
+  const watch = watchDeviceStatus(deviceId, expectedStatusAfter(action));
+  transition.watch = watch;
+  const result = await watch.promise;
+  if (transitions.get(deviceId) !== transition || result.status === 'cancelled') {
+    return;
+  }
+
+  const nickname = deviceName(deviceId);
+  transition.watch = undefined;
+  if (result.status === 'reached') {
+    patchDevice(deviceId, () => result.device);
+    endTransition(deviceId);
+    setStatusMessage(`${nickname} has been ${action}ed`);
+  } else {
+    endTransition(deviceId);
+    setStatusMessage(`${nickname} did not confirm the ${action} in time, showing its last known status`);
+  }
+};
+
+// Queue a block/unblock and flip the card to its moving state straight away, once the app lock allows it
+export const sendBarrierCommand = async (deviceId: string, action: DeviceCommandAction) => {
+  const nickname = deviceName(deviceId);
+  if (!(await confirmSensitiveAction({ source: 'command', action, target: nickname }))) {
+    setStatusMessage(`${nickname} was not ${action}ed, the app lock was not confirmed`);
+    return;
+  }
+
+  const result = enqueueCommand(deviceId, action);
+
+  if (result === 'cancelled') {
+    endTransition(deviceId);
+    setStatusMessage(`Pending command for ${nickname} cancelled`);
+    return;
+  }
+
+  if (result === 'queued') {
+    startTransition(deviceId, action);
+  }
+  if (!isOutboxOnline()) {
+    setStatusMessage(`No connection. ${nickname} will be updated when you are back online`);
+  }
+};
+
+// Forget every transition, e.g. when the user logs out
+export const clearTransitions = () => {
+  [...transitions.keys()].forEach(deviceId => endTransition(deviceId));
+};
+
+onOutboxEvent(event => {
+  const { deviceId, action } = event.command;
+
+  if (event.type === 'confirmed') {
+    confirmTransition(deviceId, action);
+    return;
+  }
+
+  log.error('Error updating device status:', event.error);
+  endTransition(deviceId);
+  setStatusMessage(`Failed to ${action} ${deviceName(deviceId)}: ${event.error.message}`);
+});
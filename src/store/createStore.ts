@@ -0,0 +1,29 @@
+export interface Store<S> {
+  getState: () => S;
+  setState: (update: (state: S) => S) => void;
+  subscribe: (listener: () => void) => () => void;
+}
+
+// Minimal external store for useSyncExternalStore: one state object, replaced on every change
+export const createStore = <S>(initialState: S): Store<S> => {
+  let state = initialState;
+  const listeners = new Set<() => void>();
+
+  return {
+    getState: () => state,
+    setState: update => {
+      const next = update(state);
+      if (next === state) {
+        return;
+      }
+      state = next;
+      listeners.forEach(listener => listener());
+    },
+    subscribe: listener => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+};
@@ -0,0 +1,27 @@
+import { useSyncExternalStore } from 'react';
+import { AppState, getAppState, subscribeAppState } from './appStore';
+import { isDemoMode, subscribeDemoMode } from '../services/demoMode';
+import { getAppLockSettings, getPinPrompt, subscribeAppLock, subscribePinPrompt } from '../services/appLock';
+
+// Selectors must return values already held in the state, never freshly built objects
+export const useAppState = <T>(selector: (state: AppState) => T): T =>
+  useSyncExternalStore(subscribeAppState, () => selector(getAppState()));
+
+export const useDevices = () => useAppState(state => state.visible.list);
+
+export const useDevice = (deviceId: string) => useAppState(state => state.visible.byId[deviceId]);
+
+// Loading flag, last error and whether the first fetch finished
+export const useDevicesStatus = () => useAppState(state => state.devices);
+
+export const useSession = () => useAppState(state => state.session);
+
+export const usePendingOperations = () => useAppState(state => state.pending);
+
+export const useBatch = () => useAppState(state => state.batch);
+
+export const useDemoMode = () => useSyncExternalStore(subscribeDemoMode, isDemoMode);
+
+export const useAppLockSettings = () => useSyncExternalStore(subscribeAppLock, getAppLockSettings);
+
+export const usePinPrompt = () => useSyncExternalStore(subscribePinPrompt, getPinPrompt);
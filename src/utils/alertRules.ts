@@ -0,0 +1,139 @@
+import type { Device } from '../services/api';
+import { signalBars } from './telemetry';
+
+export type AlertKind = 'low-battery' | 'weak-signal' | 'offline';
+
+export interface AlertThresholds {
+  // Alert when the battery reads below this many volts
+  minBatteryVoltage: number;
+  // Alert when the GSM signal drops below this many bars (0-4)
+  minSignalBars: number;
+  // Alert when the barrier has not reported in for this many hours
+  offlineAfterHours: number;
+}
+
+// A condition currently true for a device, before deduplication
+export interface AlertCondition {
+  id: string;
+  deviceId: string;
+  deviceName: string;
+  kind: AlertKind;
+  message: string;
+}
+
+export interface Alert extends AlertCondition {
+  raisedAt: number;
+  acknowledgedAt: number | null;
+  snoozedUntil: number | null;
+}
+
+export interface AlertEvaluation {
+  alerts: Alert[];
+  // Alerts that should notify the user now: new ones and those whose snooze ran out
+  raised: Alert[];
+}
+
+export const DEFAULT_ALERT_THRESHOLDS: AlertThresholds = {
+  // Roughly 20% on the barrier's lead-acid curve
+  minBatteryVoltage: 11.9,
+  minSignalBars: 1,
+  offlineAfterHours: 2,
+};
+
+export const ALERT_KIND_LABELS: Record<AlertKind, string> = {
+  'low-battery': 'Low battery',
+  'weak-signal': 'Weak signal',
+  offline: 'Offline',
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// One alert per device and kind, so repeat evaluations map onto the same entry
+export const alertId = (deviceId: string, kind: AlertKind) => `${deviceId}:${kind}`;
+
+const condition = (device: Device, kind: AlertKind, message: string): AlertCondition => ({
+  id: alertId(device.id, kind),
+  deviceId: device.id,
+  deviceName: device.nickName || device.serialNo,
+  kind,
+  message,
+});
+
+// Every threshold the device currently violates
+export const evaluateDevice = (device: Device, thresholds: AlertThresholds, now: number): AlertCondition[] => {
+  const lastSeen = device.lastConnectionDate ? Date.parse(device.lastConnectionDate) : NaN;
+
+  // A barrier that never reported in was just claimed; there is nothing to warn about yet
+  if (!Number.isNaN(lastSeen) && now - lastSeen > thresholds.offlineAfterHours * HOUR_MS) {
+    const hours = Math.floor((now - lastSeen) / HOUR_MS);
+    // Battery and signal readings are stale once the device is offline
+    return [condition(device, 'offline', `No connection for ${hours} h`)];
+  }
+
+  const conditions: AlertCondition[] = [];
+  if (device.batteryVoltage !== null && device.batteryVoltage < thresholds.minBatteryVoltage) {
+    conditions.push(condition(device, 'low-battery', `Battery at ${device.batteryVoltage.toFixed(2)} V`));
+  }
+
+  const bars = signalBars(device.gsmSignal);
+  if (bars !== null && bars < thresholds.minSignalBars) {
+    conditions.push(condition(device, 'weak-signal', `GSM signal at ${bars}/4 bars`));
+  }
+  return conditions;
+};
+
+export const evaluateDevices = (devices: Device[], thresholds: AlertThresholds, now: number) =>
+  devices.flatMap(device => evaluateDevice(device, thresholds, now));
+
+export const isAlertSnoozed = (alert: Alert, now: number) =>
+  alert.snoozedUntil !== null && alert.snoozedUntil > now;
+
+// Needs attention: neither acknowledged nor snoozed
+export const isAlertActive = (alert: Alert, now: number) =>
+  alert.acknowledgedAt === null && !isAlertSnoozed(alert, now);
+
+// Merge the current conditions into the previous alerts.
+// Conditions that persist keep their alert (and its acknowledge/snooze state),
+// conditions that cleared drop their alert, so a later relapse notifies again.
+export const reconcileAlerts = (
+  previous: Alert[],
+  conditions: AlertCondition[],
+  now: number
+): AlertEvaluation => {
+  const byId = new Map(previous.map(alert => [alert.id, alert]));
+  const raised: Alert[] = [];
+
+  const alerts = conditions.map(current => {
+    const existing = byId.get(current.id);
+    if (!existing) {
+      const alert: Alert = { ...current, raisedAt: now, acknowledgedAt: null, snoozedUntil: null };
+      raised.push(alert);
+      return alert;
+    }
+
+    if (existing.snoozedUntil !== null && existing.snoozedUntil <= now) {
+      const alert: Alert = { ...existing, ...current, snoozedUntil: null };
+      if (alert.acknowledgedAt === null) {
+        raised.push(alert);
+      }
+      return alert;
+    }
+
+    // Refresh the message so the inbox shows the latest reading
+    return { ...existing, ...current };
+  });
+
+  return { alerts, raised };
+};
+
+export const acknowledgeAlert = (alerts: Alert[], id: string, now: number): Alert[] =>
+  alerts.map(alert => (alert.id === id ? { ...alert, acknowledgedAt: now } : alert));
+
+export const snoozeAlert = (alerts: Alert[], id: string, until: number): Alert[] =>
+  alerts.map(alert => (alert.id === id ? { ...alert, snoozedUntil: until } : alert));
+
+// Active alerts first, newest first within each group
+export const sortAlerts = (alerts: Alert[], now: number) =>
+  [...alerts].sort((a, b) =>
+    Number(isAlertActive(b, now)) - Number(isAlertActive(a, now)) || b.raisedAt - a.raisedAt
+  );
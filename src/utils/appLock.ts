@@ -0,0 +1,115 @@
+import type { DeviceAction } from './deviceStatus';
+
+// When a barrier action has to be confirmed with the PIN or biometrics
+export type LockPolicy = 'always' | 'unblock-only' | 'idle';
+
+export interface AppLockSettings {
+  enabled: boolean;
+  policy: LockPolicy;
+  // For the idle policy: ask again once the app has gone this long without being touched
+  idleMinutes: number;
+  // Offer Face ID / fingerprint before falling back to the PIN
+  useBiometrics: boolean;
+}
+
+// Where the action comes from, so the prompt can say what is about to happen
+export type SensitiveActionSource = 'command' | 'bulk' | 'schedule' | 'alarm';
+
+export interface SensitiveAction {
+  source: SensitiveActionSource;
+  // Acknowledging silences the barrier's siren, which is as much worth guarding as moving it
+  action: DeviceAction;
+  // Device name, or how many devices a bulk command targets
+  target: string;
+}
+
+export const DEFAULT_APP_LOCK_SETTINGS: AppLockSettings = {
+  enabled: false,
+  policy: 'always',
+  idleMinutes: 5,
+  useBiometrics: true,
+};
+
+export const LOCK_POLICY_LABELS: Record<LockPolicy, string> = {
+  always: 'Every action',
+  'unblock-only': 'Only unblock',
+  idle: 'After idle',
+};
+
+export const IDLE_MINUTE_OPTIONS = [1, 5, 15, 30];
+
+const PIN_PATTERN = /^\d{4,8}$/;
+
+export const isValidPin = (pin: string) => PIN_PATTERN.test(pin);
+
+const MINUTE_MS = 60 * 1000;
+
+// Wrong PINs allowed before the prompt locks; every failure after that doubles the wait
+export const MAX_PIN_ATTEMPTS = 5;
+const BASE_PIN_LOCKOUT_MS = 30 * 1000;
+const MAX_PIN_LOCKOUT_MS = 60 * MINUTE_MS;
+
+// How long the PIN prompt refuses input after this many consecutive failures
+export const pinLockoutDuration = (failures: number) =>
+  failures < MAX_PIN_ATTEMPTS
+    ? 0
+    : Math.min(BASE_PIN_LOCKOUT_MS * 2 ** (failures - MAX_PIN_ATTEMPTS), MAX_PIN_LOCKOUT_MS);
+
+export const formatLockout = (milliseconds: number) =>
+  milliseconds < MINUTE_MS ? `${Math.ceil(milliseconds / 1000)} s` : `${Math.ceil(milliseconds / MINUTE_MS)} min`;
+
+// What the idle policy looks at: whether the user confirmed since the app last went idle, and when they last used it
+export interface LockActivity {
+  isUnlocked: boolean;
+  lastActiveAt: number | null;
+}
+
+export const isIdle = (settings: AppLockSettings, lastActiveAt: number | null, now: number = Date.now()) =>
+  lastActiveAt === null || now - lastActiveAt >= settings.idleMinutes * MINUTE_MS;
+
+// Whether this action needs the user to prove it is them
+export const requiresConfirmation = (
+  settings: AppLockSettings,
+  action: SensitiveAction,
+  activity: LockActivity,
+  now: number = Date.now()
+) => {
+  if (!settings.enabled) {
+    return false;
+  }
+
+  switch (settings.policy) {
+    case 'always':
+      return true;
+    // Unblocking lowers the barrier for anyone to park, so that is the direction worth guarding
+    case 'unblock-only':
+      return action.action === 'unblock';
+    case 'idle':
+      return !activity.isUnlocked || isIdle(settings, activity.lastActiveAt, now);
+  }
+};
+
+export const describeSensitiveAction = ({ source, action, target }: SensitiveAction) => {
+  const verb = action === 'block' ? 'Block' : 'Unblock';
+  switch (source) {
+    case 'alarm':
+      return `Acknowledge the alarm on ${target}`;
+    case 'command':
+      return `${verb} ${target}`;
+    case 'bulk':
+      return `${verb} ${target} device(s)`;
+    case 'schedule':
+      return `Change the ${action} schedule of ${target}`;
+  }
+};
+
+// Keep persisted settings usable even if an older build wrote fewer or odd fields
+export const normalizeAppLockSettings = (value: Partial<AppLockSettings> | null): AppLockSettings => {
+  const merged = { ...DEFAULT_APP_LOCK_SETTINGS, ...value };
+  return {
+    enabled: Boolean(merged.enabled),
+    policy: merged.policy in LOCK_POLICY_LABELS ? merged.policy : DEFAULT_APP_LOCK_SETTINGS.policy,
+    idleMinutes: merged.idleMinutes > 0 ? merged.idleMinutes : DEFAULT_APP_LOCK_SETTINGS.idleMinutes,
+    useBiometrics: Boolean(merged.useBiometrics),
+  };
+};
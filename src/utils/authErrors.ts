@@ -0,0 +1,56 @@
+import {
+  AccountLockedError,
+  NetworkError,
+  RateLimitedError,
+  TimeoutError,
+  UnauthorizedError,
+  ValidationError,
+} from '../services/errors';
+
+export const ERROR_MESSAGES = {
+  INVALID_CREDENTIALS: 'Invalid email or password',
+  NETWORK_ERROR: 'Network connection error. Please check your internet connection',
+  SERVER_ERROR: 'Server error. Please try again later',
+  EMPTY_FIELDS: 'Please fill in all fields',
+  INVALID_EMAIL: 'Please enter a valid email address',
+  RATE_LIMIT: 'Too many attempts. Please try again later',
+  TOKEN_EXPIRED: 'Session expired. Please login again',
+  REFRESH_ERROR: 'Failed to refresh token. Please login again',
+  UNAUTHORIZED: 'Unauthorized access. Please login again',
+  ACCOUNT_LOCKED: 'Account locked. Please contact support',
+  CONNECTION_TIMEOUT: 'Connection timeout. Please try again',
+};
+
+export const getLoginErrorMessage = (error: unknown) => {
+  if (error instanceof UnauthorizedError) return ERROR_MESSAGES.INVALID_CREDENTIALS;
+  if (error instanceof RateLimitedError) {
+    return error.retryAfter
+      ? `${ERROR_MESSAGES.RATE_LIMIT} (in ${error.retryAfter}s)`
+      : ERROR_MESSAGES.RATE_LIMIT;
+  }
+  if (error instanceof AccountLockedError) return ERROR_MESSAGES.ACCOUNT_LOCKED;
+  if (error instanceof NetworkError) return ERROR_MESSAGES.NETWORK_ERROR;
+  if (error instanceof TimeoutError) return ERROR_MESSAGES.CONNECTION_TIMEOUT;
+  if (error instanceof ValidationError) return error.message;
+  return ERROR_MESSAGES.SERVER_ERROR;
+};
+
+export const getRefreshErrorMessage = (error: unknown) => {
+  if (error instanceof UnauthorizedError) return ERROR_MESSAGES.TOKEN_EXPIRED;
+  if (error instanceof NetworkError) return ERROR_MESSAGES.NETWORK_ERROR;
+  if (error instanceof TimeoutError) return ERROR_MESSAGES.CONNECTION_TIMEOUT;
+  return ERROR_MESSAGES.REFRESH_ERROR;
+};
+
+// Registration, verification and reset: the server's validation message is the most useful thing to show
+export const getAccountErrorMessage = (error: unknown, fallback: string) => {
+  if (error instanceof ValidationError) return error.message;
+  if (error instanceof RateLimitedError) {
+    return error.retryAfter
+      ? `${ERROR_MESSAGES.RATE_LIMIT} (in ${error.retryAfter}s)`
+      : ERROR_MESSAGES.RATE_LIMIT;
+  }
+  if (error instanceof NetworkError) return ERROR_MESSAGES.NETWORK_ERROR;
+  if (error instanceof TimeoutError) return ERROR_MESSAGES.CONNECTION_TIMEOUT;
+  return fallback;
+};
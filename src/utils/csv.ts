@@ -0,0 +1,13 @@
+// Spreadsheets run cells starting with these as formulas; free text such as an actor's name must not
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+// RFC 4180 quoting: wrap fields containing separators, quotes or line breaks. Text that would be read as a
+// formula gets a leading apostrophe first; numbers are left alone so negative values stay numeric.
+const escapeField = (value: string | number | null | undefined) => {
+  const raw = value === null || value === undefined ? '' : String(value);
+  const text = typeof value === 'string' && FORMULA_PREFIX.test(raw) ? `'${raw}` : raw;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (headers: string[], rows: (string | number | null | undefined)[][]) =>
+  [headers, ...rows].map(row => row.map(escapeField).join(',')).join('\r\n');
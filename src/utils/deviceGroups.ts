@@ -0,0 +1,60 @@
+import { DeviceCommandAction, UserDevice, canOperate } from '../services/api';
+import { getAllowedActions } from './deviceStatus';
+
+export type DeviceGrouping = 'site' | 'owner';
+
+export interface DeviceGroup {
+  key: string;
+  title: string;
+  devices: UserDevice[];
+}
+
+export const GROUPING_LABELS: Record<DeviceGrouping, string> = {
+  site: 'Site',
+  owner: 'Owner',
+};
+
+const NO_SITE = 'No site';
+const OWN_DEVICES = 'You';
+const UNKNOWN_OWNER = 'Unknown owner';
+
+const groupTitle = (item: UserDevice, grouping: DeviceGrouping) => {
+  if (grouping === 'site') {
+    return item.device.siteName?.trim() || NO_SITE;
+  }
+  if (item.relationshipType === 'OWNER') {
+    return OWN_DEVICES;
+  }
+  return item.ownerEmail?.trim() || UNKNOWN_OWNER;
+};
+
+// Catch-all groups go last, the user's own devices first
+const groupRank = (title: string) =>
+  title === OWN_DEVICES ? 0 : title === NO_SITE || title === UNKNOWN_OWNER ? 2 : 1;
+
+const displayName = (item: UserDevice) => item.device.nickName || item.device.serialNo;
+
+export const groupDevices = (devices: UserDevice[], grouping: DeviceGrouping): DeviceGroup[] => {
+  const groups = new Map<string, DeviceGroup>();
+
+  devices.forEach(item => {
+    const title = groupTitle(item, grouping);
+    const key = title.toLowerCase();
+    const group = groups.get(key) ?? { key, title, devices: [] };
+    group.devices.push(item);
+    groups.set(key, group);
+  });
+
+  return [...groups.values()]
+    .map(group => ({
+      ...group,
+      devices: [...group.devices].sort((a, b) =>
+        displayName(a).localeCompare(displayName(b), undefined, { sensitivity: 'base', numeric: true })
+      ),
+    }))
+    .sort((a, b) => groupRank(a.title) - groupRank(b.title) || a.title.localeCompare(b.title));
+};
+
+// Devices in the group the user may send the action to right now
+export const bulkTargets = (devices: UserDevice[], action: DeviceCommandAction) =>
+  devices.filter(item => canOperate(item) && getAllowedActions(item.device.status).includes(action));
@@ -0,0 +1,107 @@
+import { UserDevice } from '../services/api';
+import { DeviceStatusKind } from './deviceStatus';
+import { Coordinates, distanceInMeters, getCoordinates, parseLocation } from './location';
+
+export type DeviceSort = 'name' | 'lastConnection' | 'battery' | 'distance';
+
+export interface DeviceQuery {
+  search: string;
+  statuses: DeviceStatusKind[];
+  types: string[];
+  relationships: string[];
+  sort: DeviceSort;
+}
+
+export const EMPTY_DEVICE_QUERY: DeviceQuery = {
+  search: '',
+  statuses: [],
+  types: [],
+  relationships: [],
+  sort: 'name',
+};
+
+export const SORT_LABELS: Record<DeviceSort, string> = {
+  name: 'Name',
+  lastConnection: 'Last connection',
+  battery: 'Battery',
+  distance: 'Nearest',
+};
+
+const displayName = (item: UserDevice) => item.device.nickName || item.device.serialNo;
+
+const timestamp = (date: string | null) => {
+  const value = date ? Date.parse(date) : NaN;
+  return Number.isNaN(value) ? null : value;
+};
+
+// Missing values always sink to the bottom, whatever the sort key
+const compareNullable = (a: number | null, b: number | null) => {
+  if (a === null || b === null) {
+    return Number(a === null) - Number(b === null);
+  }
+  return a - b;
+};
+
+type Comparator = (a: UserDevice, b: UserDevice) => number;
+
+const comparators: Record<Exclude<DeviceSort, 'distance'>, Comparator> = {
+  name: (a, b) => displayName(a).localeCompare(displayName(b), undefined, { sensitivity: 'base', numeric: true }),
+  // Most recently seen first
+  lastConnection: (a, b) => {
+    const first = timestamp(a.device.lastConnectionDate);
+    const second = timestamp(b.device.lastConnectionDate);
+    return compareNullable(first === null ? null : -first, second === null ? null : -second);
+  },
+  // Weakest battery first, those are the ones that need attention
+  battery: (a, b) => compareNullable(a.device.batteryVoltage, b.device.batteryVoltage),
+};
+
+export const distanceTo = (item: UserDevice, origin: Coordinates) => {
+  const coordinates = getCoordinates(parseLocation(item.device.location));
+  return coordinates ? distanceInMeters(origin, coordinates) : null;
+};
+
+// Nearest barrier first; devices without coordinates sink. Falls back to name until the position is known.
+const distanceComparator = (origin: Coordinates | null): Comparator => {
+  if (!origin) {
+    return comparators.name;
+  }
+  return (a, b) => compareNullable(distanceTo(a, origin), distanceTo(b, origin)) || comparators.name(a, b);
+};
+
+export const matchesSearch = (item: UserDevice, search: string) => {
+  const needle = search.trim().toLowerCase();
+  if (!needle) {
+    return true;
+  }
+  return item.device.nickName.toLowerCase().includes(needle) ||
+    item.device.serialNo.toLowerCase().includes(needle);
+};
+
+// Filter, then sort with favorites pinned above everything else
+export const applyDeviceQuery = (
+  devices: UserDevice[],
+  query: DeviceQuery,
+  origin: Coordinates | null = null
+): UserDevice[] => {
+  const compare = query.sort === 'distance' ? distanceComparator(origin) : comparators[query.sort];
+
+  return devices
+    .filter(item =>
+      matchesSearch(item, query.search) &&
+      (!query.statuses.length || query.statuses.includes(item.device.status.kind)) &&
+      (!query.types.length || query.types.includes(item.device.type)) &&
+      (!query.relationships.length || query.relationships.includes(item.relationshipType))
+    )
+    .sort((a, b) => Number(b.isFavorite) - Number(a.isFavorite) || compare(a, b));
+};
+
+// Distinct values present in the list, used to build the filter options
+export const collectFilterOptions = (devices: UserDevice[]) => ({
+  statuses: [...new Set(devices.map(item => item.device.status.kind))],
+  types: [...new Set(devices.map(item => item.device.type))].sort(),
+  relationships: [...new Set(devices.map(item => item.relationshipType))].sort(),
+});
+
+export const toggleValue = <T>(values: T[], value: T) =>
+  values.includes(value) ? values.filter(v => v !== value) : [...values, value];
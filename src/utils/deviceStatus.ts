@@ -0,0 +1,119 @@
+// Barrier state as reported by the device, normalized from the raw API string
+export type DeviceStatus =
+  | { kind: 'blocked'; raw: string }
+  | { kind: 'unblocked'; raw: string }
+  | { kind: 'alarm'; raw: string }
+  | { kind: 'in-use'; raw: string }
+  | { kind: 'moving'; direction: 'up' | 'down'; raw: string }
+  | { kind: 'offline'; raw: string }
+  | { kind: 'error'; raw: string }
+  | { kind: 'unknown'; raw: string };
+
+export type DeviceStatusKind = DeviceStatus['kind'];
+
+export type DeviceAction = 'block' | 'unblock' | 'acknowledge';
+
+const statusImages = {
+  ACTIVE_DOWN: require('../../assets/images/console_boucner_active_down.png'),
+  ACTIVE_UP: require('../../assets/images/console_bouncer_active_up.png'),
+  ALARM: require('../../assets/images/console_bouncer_alarm.png'),
+  IN_USE: require('../../assets/images/console_bouncer_in_useuse.png'),
+  PASSIVE: require('../../assets/images/console_bouncer_passive.png'),
+};
+
+export const parseDeviceStatus = (raw: string): DeviceStatus => {
+  switch (raw.toUpperCase()) {
+    case 'BLOCKED':
+      return { kind: 'blocked', raw };
+    case 'UNBLOCKED':
+      return { kind: 'unblocked', raw };
+    case 'ALARM':
+      return { kind: 'alarm', raw };
+    case 'IN_USE':
+      return { kind: 'in-use', raw };
+    // Directions follow the artwork: the blocked pose is the active_down image
+    case 'BLOCKING':
+    case 'MOVING_DOWN':
+      return { kind: 'moving', direction: 'down', raw };
+    case 'UNBLOCKING':
+    case 'MOVING_UP':
+      return { kind: 'moving', direction: 'up', raw };
+    case 'OFFLINE':
+      return { kind: 'offline', raw };
+    case 'ERROR':
+      return { kind: 'error', raw };
+  }
+
+  if (/^ERROR_/i.test(raw)) {
+    return { kind: 'error', raw };
+  }
+  return { kind: 'unknown', raw };
+};
+
+export const getStatusImage = (status: DeviceStatus) => {
+  switch (status.kind) {
+    case 'blocked':
+      return statusImages.ACTIVE_DOWN;
+    case 'unblocked':
+      return statusImages.ACTIVE_UP;
+    case 'moving':
+      return status.direction === 'down' ? statusImages.ACTIVE_DOWN : statusImages.ACTIVE_UP;
+    case 'alarm':
+      return statusImages.ALARM;
+    case 'in-use':
+      return statusImages.IN_USE;
+    case 'offline':
+    case 'error':
+    case 'unknown':
+      return statusImages.PASSIVE;
+  }
+};
+
+export const getStatusLabel = (status: DeviceStatus) => {
+  switch (status.kind) {
+    case 'blocked':
+      return 'Blocked';
+    case 'unblocked':
+      return 'Unblocked';
+    case 'moving':
+      return status.direction === 'down' ? 'Blocking…' : 'Unblocking…';
+    case 'alarm':
+      return 'Alarm';
+    case 'in-use':
+      return 'In use';
+    case 'offline':
+      return 'Offline';
+    case 'error':
+      return `Error (${status.raw})`;
+    case 'unknown':
+      return `Unknown status (${status.raw})`;
+  }
+};
+
+// What the user may do from each state; e.g. never block while a car is on the barrier
+export const getAllowedActions = (status: DeviceStatus): DeviceAction[] => {
+  switch (status.kind) {
+    case 'blocked':
+      return ['unblock'];
+    case 'unblocked':
+      return ['block'];
+    case 'alarm':
+      return ['acknowledge'];
+    case 'in-use':
+    case 'moving':
+    case 'offline':
+    case 'error':
+    case 'unknown':
+      return [];
+  }
+};
+
+export const ACTION_LABELS: Record<DeviceAction, string> = {
+  block: 'Block Device',
+  unblock: 'Unblock Device',
+  acknowledge: 'Acknowledge Alarm',
+};
+
+// The settled state a block/unblock command is expected to end in
+export const expectedStatusAfter = (action: 'block' | 'unblock'): DeviceStatusKind =>
+  action === 'block' ? 'blocked' : 'unblocked';
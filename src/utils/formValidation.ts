@@ -0,0 +1,83 @@
+// Field name -> message for every field that failed; empty when the form is valid
+export type FormErrors<T> = Partial<Record<keyof T, string>>;
+
+export interface LoginForm {
+  email: string;
+  password: string;
+}
+
+export interface RegistrationForm {
+  name: string;
+  email: string;
+  password: string;
+  confirmPassword: string;
+}
+
+export interface PasswordResetForm {
+  code: string;
+  password: string;
+  confirmPassword: string;
+}
+
+export const PASSWORD_MIN_LENGTH = 8;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const CODE_PATTERN = /^\d{6}$/;
+
+export const isValidEmail = (email: string) => EMAIL_PATTERN.test(email.trim());
+
+export const hasErrors = <T>(errors: FormErrors<T>) => Object.keys(errors).length > 0;
+
+const emailError = (email: string) => {
+  if (!email.trim()) return 'Email is required';
+  if (!isValidEmail(email)) return 'Please enter a valid email address';
+  return undefined;
+};
+
+// Mirrors the backend policy so users find out before the round trip
+export const passwordError = (password: string) => {
+  if (!password) return 'Password is required';
+  if (password.length < PASSWORD_MIN_LENGTH) return `Use at least ${PASSWORD_MIN_LENGTH} characters`;
+  if (!/[A-Za-z]/.test(password) || !/\d/.test(password)) return 'Use both letters and numbers';
+  return undefined;
+};
+
+const confirmationError = (password: string, confirmPassword: string) => {
+  if (!confirmPassword) return 'Please repeat the password';
+  if (password !== confirmPassword) return 'Passwords do not match';
+  return undefined;
+};
+
+export const verificationCodeError = (code: string) => {
+  if (!code.trim()) return 'Enter the code from the email';
+  if (!CODE_PATTERN.test(code.trim())) return 'The code has 6 digits';
+  return undefined;
+};
+
+// Drop the fields that passed so callers can test for emptiness
+const collect = <T>(errors: Record<keyof T, string | undefined>): FormErrors<T> =>
+  Object.fromEntries(Object.entries(errors).filter(([, message]) => message)) as FormErrors<T>;
+
+// Login only checks shape: the password policy may have changed since the account was created
+export const validateLogin = (form: LoginForm) =>
+  collect<LoginForm>({
+    email: emailError(form.email),
+    password: form.password ? undefined : 'Password is required',
+  });
+
+export const validateRegistration = (form: RegistrationForm) =>
+  collect<RegistrationForm>({
+    name: form.name.trim() ? undefined : 'Name is required',
+    email: emailError(form.email),
+    password: passwordError(form.password),
+    confirmPassword: confirmationError(form.password, form.confirmPassword),
+  });
+
+export const validateEmailOnly = (email: string) => collect<{ email: string }>({ email: emailError(email) });
+
+export const validatePasswordReset = (form: PasswordResetForm) =>
+  collect<PasswordResetForm>({
+    code: verificationCodeError(form.code),
+    password: passwordError(form.password),
+    confirmPassword: confirmationError(form.password, form.confirmPassword),
+  });
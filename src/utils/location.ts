@@ -0,0 +1,125 @@
+import { DeviceStatusKind } from './deviceStatus';
+
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+// Device.location is free text on the server: installers type either a "lat,lng" pair or a street address
+export type DeviceLocation =
+  | { kind: 'coordinates'; coordinates: Coordinates; raw: string }
+  | { kind: 'address'; address: string; raw: string }
+  | { kind: 'none' };
+
+// "41.0422,29.0083", "41.0422 29.0083", "41.0422;29.0083" or "geo:41.0422,29.0083"
+const PAIR_PATTERN = /^(?:geo:)?\s*(-?\d+(?:\.\d+)?)\s*[,; ]\s*(-?\d+(?:\.\d+)?)\s*$/i;
+
+const isValidCoordinates = ({ latitude, longitude }: Coordinates) =>
+  Number.isFinite(latitude) && Number.isFinite(longitude) &&
+  Math.abs(latitude) <= 90 && Math.abs(longitude) <= 180;
+
+// Some older devices were provisioned with {"lat": .., "lng": ..} JSON
+const parseJsonCoordinates = (text: string): Coordinates | null => {
+  if (!text.startsWith('{')) {
+    return null;
+  }
+  try {
+    const value = JSON.parse(text);
+    const latitude = Number(value?.latitude ?? value?.lat);
+    const longitude = Number(value?.longitude ?? value?.lng ?? value?.lon);
+    return { latitude, longitude };
+  } catch {
+    return null;
+  }
+};
+
+const parseCoordinates = (text: string): Coordinates | null => {
+  const match = PAIR_PATTERN.exec(text);
+  const coordinates = match
+    ? { latitude: Number(match[1]), longitude: Number(match[2]) }
+    : parseJsonCoordinates(text);
+  return coordinates && isValidCoordinates(coordinates) ? coordinates : null;
+};
+
+export const parseLocation = (raw: string | null): DeviceLocation => {
+  const text = raw?.trim() ?? '';
+  if (!text) {
+    return { kind: 'none' };
+  }
+
+  const coordinates = parseCoordinates(text);
+  if (coordinates) {
+    return { kind: 'coordinates', coordinates, raw: text };
+  }
+  // Anything that looks like numbers but is out of range is still shown as typed
+  return { kind: 'address', address: text, raw: text };
+};
+
+export const getCoordinates = (location: DeviceLocation) =>
+  location.kind === 'coordinates' ? location.coordinates : null;
+
+export const formatLocation = (location: DeviceLocation) => {
+  switch (location.kind) {
+    case 'coordinates':
+      return `${location.coordinates.latitude.toFixed(5)}, ${location.coordinates.longitude.toFixed(5)}`;
+    case 'address':
+      return location.address;
+    case 'none':
+      return 'Not set';
+  }
+};
+
+const EARTH_RADIUS_METERS = 6371000;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+// Great-circle distance; plenty accurate for "which barrier is closest"
+export const distanceInMeters = (from: Coordinates, to: Coordinates) => {
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLng = toRadians(to.longitude - from.longitude);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.min(1, Math.sqrt(a)));
+};
+
+export const formatDistance = (meters: number) =>
+  meters < 1000 ? `${Math.round(meters)} m` : `${(meters / 1000).toFixed(meters < 10000 ? 1 : 0)} km`;
+
+export interface MapRegion extends Coordinates {
+  latitudeDelta: number;
+  longitudeDelta: number;
+}
+
+const MIN_REGION_DELTA = 0.01;
+
+// Smallest region showing every point with some margin, or null when there is nothing to show
+export const regionForCoordinates = (points: Coordinates[]): MapRegion | null => {
+  if (!points.length) {
+    return null;
+  }
+  const latitudes = points.map(point => point.latitude);
+  const longitudes = points.map(point => point.longitude);
+  const [minLat, maxLat] = [Math.min(...latitudes), Math.max(...latitudes)];
+  const [minLng, maxLng] = [Math.min(...longitudes), Math.max(...longitudes)];
+
+  return {
+    latitude: (minLat + maxLat) / 2,
+    longitude: (minLng + maxLng) / 2,
+    latitudeDelta: Math.max((maxLat - minLat) * 1.4, MIN_REGION_DELTA),
+    longitudeDelta: Math.max((maxLng - minLng) * 1.4, MIN_REGION_DELTA),
+  };
+};
+
+// Marker colours. Android pins only take the hue of the colour, so every status gets its own hue
+// (no greys, which come out red) and neighbouring hues stay at least 40° apart.
+export const STATUS_COLORS: Record<DeviceStatusKind, string> = {
+  blocked: '#cf1717',
+  moving: '#cf9117',
+  unknown: '#91cf17',
+  unblocked: '#17cf26',
+  offline: '#17cfcf',
+  'in-use': '#1745cf',
+  error: '#7317cf',
+  alarm: '#cf17a1',
+};
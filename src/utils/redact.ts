@@ -0,0 +1,86 @@
+// Scrubs secrets and personal data from anything headed for the log or a diagnostics file
+
+const REDACTED = '[redacted]';
+
+// Keys whose values are never worth keeping, whatever they contain; verification and reset codes travel as "code"
+const SECRET_KEY_PATTERN = /pass(word)?|secret|token|authorization|cookie|^pin$|^code$/i;
+
+const EMAIL_PATTERN = /([A-Za-z0-9._%+-])[A-Za-z0-9._%+-]*@([A-Za-z0-9.-]+\.[A-Za-z]{2,})/g;
+const BEARER_PATTERN = /\b(Bearer|Basic)\s+[A-Za-z0-9._~+/=-]+/gi;
+// Three base64url segments, the shape of a JWT
+const JWT_PATTERN = /\beyJ[A-Za-z0-9_-]*\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]*/g;
+// password=hunter2, "refreshToken": "abc", token: abc
+const INLINE_SECRET_PATTERN =
+  /((?:pass(?:word)?|secret|token|refreshToken|accessToken|authorization|pin)["']?\s*[:=]\s*["']?)[^"'\s,&}]+/gi;
+
+const MAX_DEPTH = 4;
+const MAX_STRING_LENGTH = 2000;
+
+// Keep the first letter and the domain so support can still tell accounts apart
+export const maskEmail = (email: string) => email.replace(EMAIL_PATTERN, '$1***@$2');
+
+export const redactText = (text: string) =>
+  maskEmail(
+    text
+      .replace(BEARER_PATTERN, `$1 ${REDACTED}`)
+      .replace(JWT_PATTERN, REDACTED)
+      .replace(INLINE_SECRET_PATTERN, `$1${REDACTED}`)
+  );
+
+const truncate = (text: string) =>
+  text.length > MAX_STRING_LENGTH ? `${text.slice(0, MAX_STRING_LENGTH)}… (${text.length} chars)` : text;
+
+// Errors only contribute what identifies the failure; axios errors would otherwise drag in
+// the whole request config, headers and bearer token included
+const describeError = (error: Error & { status?: number; code?: string; config?: any; response?: any }) => {
+  const status = error.status ?? error.response?.status;
+  const request = error.config ? `${String(error.config.method ?? '').toUpperCase()} ${error.config.url ?? ''}`.trim() : '';
+  return [
+    `${error.name}: ${error.message}`,
+    status ? `status ${status}` : '',
+    error.code ? `code ${error.code}` : '',
+    request,
+  ].filter(Boolean).join(', ');
+};
+
+const sanitize = (value: unknown, depth: number, seen: WeakSet<object>): unknown => {
+  if (value instanceof Error) {
+    return describeError(value);
+  }
+  if (typeof value === 'string') {
+    return redactText(truncate(value));
+  }
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+  if (seen.has(value)) {
+    return '[circular]';
+  }
+  if (depth >= MAX_DEPTH) {
+    return Array.isArray(value) ? `[${value.length} items]` : '[object]';
+  }
+  seen.add(value);
+
+  if (Array.isArray(value)) {
+    return value.map(item => sanitize(item, depth + 1, seen));
+  }
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => [
+      key,
+      SECRET_KEY_PATTERN.test(key) ? REDACTED : sanitize(item, depth + 1, seen),
+    ])
+  );
+};
+
+// One redacted line for any log argument: strings as they are, errors summarized, objects as JSON
+export const redactValue = (value: unknown): string => {
+  const sanitized = sanitize(value, 0, new WeakSet());
+  if (typeof sanitized === 'string') {
+    return sanitized;
+  }
+  try {
+    return JSON.stringify(sanitized) ?? String(sanitized);
+  } catch {
+    return String(sanitized);
+  }
+};
@@ -0,0 +1,70 @@
+import { ScheduleRule, findConflicts, nextOccurrence, nextScheduledAction } from './schedule';
+
+const rule = (patch: Partial<ScheduleRule>): ScheduleRule => ({
+  id: 'rule',
+  deviceId: 'device',
+  days: [0, 1, 2, 3, 4, 5, 6],
+  time: '22:00',
+  timeZone: 'America/New_York',
+  action: 'block',
+  enabled: true,
+  ...patch,
+});
+
+describe('nextOccurrence', () => {
+  it('fires in the zone it was written for', () => {
+    const at = nextOccurrence(rule({ time: '22:00' }), new Date('2026-06-01T12:00:00Z'));
+    expect(at?.toISOString()).toBe('2026-06-02T02:00:00.000Z');
+  });
+
+  // New York springs forward at 02:00 on 2026-03-08, so 02:30 never shows on the wall clock
+  it('pushes a time skipped by a DST jump past the gap', () => {
+    const sundays = rule({ days: [0], time: '02:30' });
+    const at = nextOccurrence(sundays, new Date('2026-03-08T00:00:00Z'));
+    expect(at?.toISOString()).toBe('2026-03-08T07:30:00.000Z');
+  });
+
+  // New York falls back at 02:00 on 2026-11-01, so 01:30 shows twice
+  it('fires once, on the first pass, for a time repeated when clocks fall back', () => {
+    const sundays = rule({ days: [0], time: '01:30' });
+    const first = nextOccurrence(sundays, new Date('2026-11-01T00:00:00Z'));
+    expect(first?.toISOString()).toBe('2026-11-01T05:30:00.000Z');
+    expect(nextOccurrence(sundays, first!)?.toISOString()).toBe('2026-11-08T06:30:00.000Z');
+  });
+
+  it('never fires for a disabled rule', () => {
+    expect(nextOccurrence(rule({ enabled: false }), new Date())).toBeNull();
+  });
+});
+
+describe('nextScheduledAction', () => {
+  it('picks the earliest rule, including one moved by a DST gap', () => {
+    const skipped = rule({ id: 'skipped', days: [0], time: '02:30', action: 'unblock' });
+    const later = rule({ id: 'later', days: [0], time: '04:00' });
+    const next = nextScheduledAction([later, skipped], new Date('2026-03-08T00:00:00Z'));
+    expect(next?.rule.id).toBe('skipped');
+    expect(next?.at.toISOString()).toBe('2026-03-08T07:30:00.000Z');
+  });
+});
+
+describe('findConflicts', () => {
+  const lateSunday = rule({ id: 'sunday', days: [0], time: '23:58', action: 'block' });
+  const earlyMonday = rule({ id: 'monday', days: [1], time: '00:01', action: 'unblock' });
+
+  it('reports rules on the same device that fire minutes apart', () => {
+    const conflicts = findConflicts([lateSunday, earlyMonday], new Date('2026-06-03T12:00:00Z'));
+    expect(conflicts).toHaveLength(1);
+    expect(conflicts[0].kind).toBe('contradiction');
+  });
+
+  // Checking from Monday 00:00 New York time puts the two firings on either side of the week's start
+  it('catches a pair that straddles the edge of the checked week', () => {
+    const conflicts = findConflicts([lateSunday, earlyMonday], new Date('2026-06-08T04:00:00Z'));
+    expect(conflicts).toHaveLength(1);
+  });
+
+  it('ignores rules on other devices', () => {
+    const elsewhere = { ...earlyMonday, deviceId: 'other' };
+    expect(findConflicts([lateSunday, elsewhere], new Date('2026-06-03T12:00:00Z'))).toEqual([]);
+  });
+});
@@ -0,0 +1,211 @@
+import { DeviceCommandAction } from '../services/api';
+
+// 0 = Sunday ... 6 = Saturday, same as Date#getDay
+export type Weekday = 0 | 1 | 2 | 3 | 4 | 5 | 6;
+
+export interface ScheduleRule {
+  id: string;
+  deviceId: string;
+  days: Weekday[];
+  // Wall-clock time in the rule's own time zone, "HH:mm"
+  time: string;
+  timeZone: string;
+  action: DeviceCommandAction;
+  enabled: boolean;
+}
+
+export interface ScheduledAction {
+  rule: ScheduleRule;
+  at: Date;
+}
+
+export interface ScheduleConflict {
+  kind: 'contradiction' | 'duplicate';
+  first: ScheduleRule;
+  second: ScheduleRule;
+  at: Date;
+}
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Rules firing this close to each other fight over the barrier
+export const CONFLICT_WINDOW_MS = 5 * 60 * 1000;
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+const WEEK_MS = 7 * DAY_MS;
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+export const isValidTime = (time: string) => TIME_PATTERN.test(time);
+
+export const isValidTimeZone = (timeZone: string) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const parseTime = (time: string) => {
+  const match = TIME_PATTERN.exec(time);
+  if (!match) {
+    throw new Error(`Invalid schedule time "${time}"`);
+  }
+  return { hour: Number(match[1]), minute: Number(match[2]) };
+};
+
+// Calendar fields of an instant as seen in the given time zone
+const zonedParts = (date: Date, timeZone: string) => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+  }).formatToParts(date);
+
+  const field = (type: string) => Number(parts.find(part => part.type === type)?.value);
+  return {
+    year: field('year'),
+    month: field('month'),
+    day: field('day'),
+    hour: field('hour'),
+    minute: field('minute'),
+  };
+};
+
+// Offset of the zone from UTC at the given instant, in milliseconds
+const zoneOffset = (date: Date, timeZone: string) => {
+  const { year, month, day, hour, minute } = zonedParts(date, timeZone);
+  const asUtc = Date.UTC(year, month - 1, day, hour, minute);
+  return asUtc - Math.floor(date.getTime() / MINUTE_MS) * MINUTE_MS;
+};
+
+// Instant at which the zone's wall clock shows the given local time.
+// A time skipped by a DST jump is pushed forward by the size of the gap (02:30 on a spring-forward
+// night fires at 03:30); a time that occurs twice when clocks fall back resolves to the first of the two.
+const zonedTimeToUtc = (year: number, month: number, day: number, hour: number, minute: number, timeZone: string) => {
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+  // Zones change offset at most once around any given local time, so the offsets a day either
+  // side are the only two the wall clock can be read with
+  const before = wallClock - zoneOffset(new Date(wallClock - DAY_MS), timeZone);
+  const after = wallClock - zoneOffset(new Date(wallClock + DAY_MS), timeZone);
+  const shows = (instant: number) => {
+    const parts = zonedParts(new Date(instant), timeZone);
+    return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute) === wallClock;
+  };
+
+  const matches = [before, after].filter(shows);
+  if (matches.length) {
+    return new Date(Math.min(...matches));
+  }
+  // Inside a gap: read with the offset from before the jump, which lands the same distance past it
+  return new Date(before);
+};
+
+// Next instant strictly after `from` at which the rule fires, or null if it never does
+export const nextOccurrence = (rule: ScheduleRule, from: Date): Date | null => {
+  if (!rule.enabled || !rule.days.length) {
+    return null;
+  }
+
+  const { hour, minute } = parseTime(rule.time);
+  const today = zonedParts(from, rule.timeZone);
+
+  // Eight days covers "later today" through "same weekday next week"
+  for (let offset = 0; offset <= 7; offset++) {
+    const date = new Date(Date.UTC(today.year, today.month - 1, today.day + offset));
+    if (!rule.days.includes(date.getUTCDay() as Weekday)) {
+      continue;
+    }
+
+    const candidate = zonedTimeToUtc(
+      date.getUTCFullYear(),
+      date.getUTCMonth() + 1,
+      date.getUTCDate(),
+      hour,
+      minute,
+      rule.timeZone
+    );
+    if (candidate.getTime() > from.getTime()) {
+      return candidate;
+    }
+  }
+  return null;
+};
+
+// Earliest action any enabled rule will take after `from`
+export const nextScheduledAction = (rules: ScheduleRule[], from: Date): ScheduledAction | null =>
+  rules.reduce<ScheduledAction | null>((next, rule) => {
+    const at = nextOccurrence(rule, from);
+    if (!at || (next && next.at.getTime() <= at.getTime())) {
+      return next;
+    }
+    return { rule, at };
+  }, null);
+
+// Every firing of the rule in [start, end)
+const occurrencesBetween = (rule: ScheduleRule, start: number, end: number) => {
+  const occurrences: Date[] = [];
+  let cursor = new Date(start - 1);
+
+  for (let at = nextOccurrence(rule, cursor); at && at.getTime() < end; at = nextOccurrence(rule, cursor)) {
+    occurrences.push(at);
+    cursor = at;
+  }
+  return occurrences;
+};
+
+// Pairs of enabled rules on the same device that fire within CONFLICT_WINDOW_MS of each other.
+// Rules repeat weekly, so one week of firings is enough, widened on both sides by the window plus
+// an hour of DST slack; otherwise a Sun 23:58 / Mon 00:01 pair is missed whenever the week being
+// checked happens to start or end between the two.
+export const findConflicts = (rules: ScheduleRule[], from: Date = new Date()): ScheduleConflict[] => {
+  const enabled = rules.filter(rule => rule.enabled);
+  const start = from.getTime();
+  const padding = CONFLICT_WINDOW_MS + HOUR_MS;
+  const occurrences = new Map(enabled.map(rule => [
+    rule.id,
+    occurrencesBetween(rule, start - padding, start + WEEK_MS + padding),
+  ]));
+  // Report upcoming clashes before the one that just went by
+  const upcomingFirst = (dates: Date[] = []) => [
+    ...dates.filter(at => at.getTime() >= start),
+    ...dates.filter(at => at.getTime() < start),
+  ];
+  const conflicts: ScheduleConflict[] = [];
+
+  enabled.forEach((first, index) => {
+    enabled.slice(index + 1).forEach(second => {
+      if (first.deviceId !== second.deviceId) {
+        return;
+      }
+
+      const clash = upcomingFirst(occurrences.get(first.id)).find(a =>
+        occurrences.get(second.id)?.some(b => Math.abs(a.getTime() - b.getTime()) < CONFLICT_WINDOW_MS)
+      );
+      if (clash) {
+        conflicts.push({
+          kind: first.action === second.action ? 'duplicate' : 'contradiction',
+          first,
+          second,
+          at: clash,
+        });
+      }
+    });
+  });
+
+  return conflicts;
+};
+
+export const describeRule = (rule: ScheduleRule) => {
+  const days = rule.days.length === 7
+    ? 'Every day'
+    : [...rule.days].sort().map(day => WEEKDAY_LABELS[day]).join(', ');
+  return `${rule.action === 'block' ? 'Block' : 'Unblock'} at ${rule.time} · ${days} (${rule.timeZone})`;
+};
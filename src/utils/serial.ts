@@ -0,0 +1,14 @@
+// LetsParky serials are 8-16 uppercase letters and digits, printed in groups of four
+const SERIAL_PATTERN = /^[A-Z0-9]{8,16}$/;
+
+// Accept what people actually type: lowercase, spaces and dashes between groups
+export const normalizeSerial = (input: string) => input.toUpperCase().replace(/[\s-]/g, '');
+
+export const isValidSerial = (input: string) => SERIAL_PATTERN.test(normalizeSerial(input));
+
+// QR stickers carry either the bare serial or a claim link with a "serial" query parameter
+export const parseSerialFromQr = (data: string): string | null => {
+  const match = /[?&]serial=([^&#]+)/i.exec(data);
+  const candidate = normalizeSerial(match ? decodeURIComponent(match[1]) : data.trim());
+  return SERIAL_PATTERN.test(candidate) ? candidate : null;
+};
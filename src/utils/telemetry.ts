@@ -0,0 +1,70 @@
+// Resting voltage -> charge curve for the barrier's 12V sealed lead-acid battery
+const BATTERY_CURVE: [number, number][] = [
+  [11.6, 0],
+  [11.9, 20],
+  [12.1, 40],
+  [12.3, 60],
+  [12.5, 80],
+  [12.7, 100],
+];
+
+// A barrier reports in regularly; silence longer than this means it dropped off GSM
+export const OFFLINE_AFTER_MS = 30 * 60 * 1000;
+
+export const batteryPercentage = (voltage: number | null): number | null => {
+  if (voltage === null || !Number.isFinite(voltage)) {
+    return null;
+  }
+
+  const [minVoltage] = BATTERY_CURVE[0];
+  const [maxVoltage] = BATTERY_CURVE[BATTERY_CURVE.length - 1];
+  if (voltage <= minVoltage) return 0;
+  if (voltage >= maxVoltage) return 100;
+
+  // Linear interpolation between the two surrounding points of the curve
+  const upper = BATTERY_CURVE.findIndex(([v]) => v >= voltage);
+  const [v1, p1] = BATTERY_CURVE[upper - 1];
+  const [v2, p2] = BATTERY_CURVE[upper];
+  return Math.round(p1 + ((voltage - v1) / (v2 - v1)) * (p2 - p1));
+};
+
+// gsmSignal is the modem CSQ value (0-31, 99 = unknown); negative values are dBm
+export const signalBars = (gsmSignal: number | null): number | null => {
+  if (gsmSignal === null || gsmSignal === 99 || !Number.isFinite(gsmSignal)) {
+    return null;
+  }
+
+  const csq = gsmSignal < 0 ? (gsmSignal + 113) / 2 : gsmSignal;
+  if (csq < 2) return 0;
+  if (csq < 10) return 1;
+  if (csq < 15) return 2;
+  if (csq < 20) return 3;
+  return 4;
+};
+
+export const isDeviceOffline = (lastConnectionDate: string | null, now: number = Date.now()) => {
+  if (!lastConnectionDate) {
+    return true;
+  }
+  const lastSeen = Date.parse(lastConnectionDate);
+  return Number.isNaN(lastSeen) || now - lastSeen > OFFLINE_AFTER_MS;
+};
+
+export const formatRelativeTime = (date: string | null, now: number = Date.now()) => {
+  if (!date) {
+    return 'Never';
+  }
+  const timestamp = Date.parse(date);
+  if (Number.isNaN(timestamp)) {
+    return 'Unknown';
+  }
+
+  const seconds = Math.max(0, Math.round((now - timestamp) / 1000));
+  if (seconds < 60) return 'Just now';
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes} min ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours} h ago`;
+  const days = Math.floor(hours / 24);
+  return `${days} ${days === 1 ? 'day' : 'days'} ago`;
+};